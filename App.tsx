@@ -1,71 +1,268 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Board } from './components/Board';
-import { StoneColor, Coordinates, AnalysisPoint, GameHistory } from './types';
-import { createEmptyBoard, placeStone, BOARD_SIZE } from './utils/gameLogic';
-import { getBestMove, getBoardAnalysis, fetchOllamaModels, sendChat, boardToString } from './services/geminiService';
-import { Brain, RotateCcw, Play, SkipForward, Info, Activity, Settings, AlertCircle, RefreshCw, X, HelpCircle, CheckCircle, MessageSquare, Send, Code } from 'lucide-react';
-
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string;
-  timestamp: number;
-}
+import { NewGameDialog } from './components/NewGameDialog';
+import { GameTreePanel } from './components/GameTreePanel';
+import { MoveNavigator } from './components/MoveNavigator';
+import { SavedGamesDialog } from './components/SavedGamesDialog';
+import { TaskSettingsPanel } from './components/TaskSettingsPanel';
+import { GameReviewPanel } from './components/GameReviewPanel';
+import { ScoreGraph } from './components/ScoreGraph';
+import { TsumegoTrainer } from './components/TsumegoTrainer';
+import { StoneColor, Coordinates, Move, AnalysisPoint, GameSetup, GameTree, KoRule, MoveLegality, RejectedMove, GamePhase, ScoringRule, ScoreResult, AiProviderType, AiBackend, MoveEngineType, MoveConstraint, TimeoutAction, ChatMessage, SavedGame, SavedGameSummary, AiTask, TaskModelSettings, AnalysisSource, GameReview, MoveReview, GameNode, ScoreEstimatorType, TsumegoMistake, TsumegoStats } from './types';
+import { createEmptyBoard, placeStone, BOARD_SIZE, ILLEGAL_MOVE_MESSAGES, toGoCoordinate, getHandicapPoints, getCandidateMoves } from './utils/gameLogic';
+import { scoreGame, toggleDeadGroup, DEFAULT_KOMI } from './utils/scoring';
+import { loadSgf, serializeSgf } from './utils/sgf';
+import { DEFAULT_MCTS_PLAYOUTS, DEFAULT_MCTS_TIME_LIMIT_MS } from './utils/mcts';
+import { reviewMove, biggestMistakes } from './utils/gameReview';
+import { estimateOwnership } from './utils/influence';
+import { analyzeGroups } from './utils/groupStatus';
+import { createGameTree, addMoveNode, updateNode, appendComment, getNodePath, pathToHistory, getLineEnd, countTrailingPasses, deleteBranch, promoteToMainLine, findChild } from './utils/gameTree';
+import { getBestMove, getBoardAnalysis, fetchModels, sendChat, explainMove, boardToString } from './services/geminiService';
+import { AI_PROVIDERS, DEFAULT_TASK_SETTINGS } from './services/aiProviders';
+import { ModelResponseError } from './services/modelResponses';
+import { RequestControl, AiTimeoutError, DEFAULT_AI_TIMEOUT_MS, withTimeout, isAbortError } from './services/requestControl';
+import { getOfflineMove, getOfflineAnalysis } from './services/offlineBot';
+import { createScoreEstimators } from './services/scoreEstimators';
+import { loadSettings, saveSettings, getCurrentGameId, setCurrentGameId, createGameId, saveGame, loadGame, deleteGame, listSavedGames, loadTsumegoStats, saveTsumegoStats } from './services/gameStorage';
+import { DEFAULT_GTP_BRIDGE_URL, GtpPosition, syncGtpEngine, gtpGenmove, gtpFinalScore, pathToGtpPosition } from './services/gtpClient';
+import { Brain, RotateCcw, Play, SkipForward, Info, Activity, Settings, AlertCircle, RefreshCw, X, HelpCircle, CheckCircle, MessageSquare, Send, Code, Flag, Hand, Download, Upload, Square, FolderOpen } from 'lucide-react';
 
 const App: React.FC = () => {
   // Game State
-  const [board, setBoard] = useState<StoneColor[][]>(createEmptyBoard());
-  const [currentTurn, setCurrentTurn] = useState<StoneColor>(StoneColor.BLACK);
-  const [history, setHistory] = useState<GameHistory[]>([]);
-  const [lastMove, setLastMove] = useState<Coordinates | null>(null);
-  const [captures, setCaptures] = useState({ black: 0, white: 0 });
+  // Every game is saved under its own id; the one on the board is restored after a reload
+  const [gameId, setGameId] = useState(createGameId);
+  const [isRestoring, setIsRestoring] = useState(true);
+  const [gameSetup, setGameSetup] = useState<GameSetup>({ boardSize: BOARD_SIZE, handicap: 0, handicapPlacement: 'fixed', komi: DEFAULT_KOMI });
+  const [gameTree, setGameTree] = useState<GameTree>(() => createGameTree(createEmptyBoard(BOARD_SIZE), StoneColor.BLACK));
+  const [currentNodeId, setCurrentNodeId] = useState(0);
+  // While browsing, positions can be viewed without the AI replying or the game advancing
+  const [isBrowsing, setIsBrowsing] = useState(false);
+  const [gamePhase, setGamePhase] = useState<GamePhase>('playing');
+  const [consecutivePasses, setConsecutivePasses] = useState(0);
+  const [handicapStonesLeft, setHandicapStonesLeft] = useState(0);
+
+  // Scoring State
+  const [deadStones, setDeadStones] = useState<Coordinates[]>([]);
+  const [scoreConfirmed, setScoreConfirmed] = useState({ black: false, white: false });
+  const [gameResult, setGameResult] = useState<ScoreResult | null>(null);
 
   // AI & Analysis State
   const [isThinking, setIsThinking] = useState(false);
+  // The AI request in progress; Undo, New Game, Stop and model changes abort it
+  const aiRequestRef = useRef<AbortController | null>(null);
   const [aiSuggestion, setAiSuggestion] = useState<string | null>(null);
   const [analysisData, setAnalysisData] = useState<AnalysisPoint[]>([]);
   const [showAnalysis, setShowAnalysis] = useState(false);
+  const [showOwnership, setShowOwnership] = useState(false);
+  const [showGroupStatus, setShowGroupStatus] = useState(false);
+  const [review, setReview] = useState<GameReview | null>(null);
+  // Black's estimated lead in each position of the game, by node id
+  const [scoreEstimates, setScoreEstimates] = useState<Record<number, number>>({});
+  const [isEstimatingScores, setIsEstimatingScores] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [illegalMoveMsg, setIllegalMoveMsg] = useState<string | null>(null);
   
   // Chat State
   const [chatHistory, setChatHistory] = useState<ChatMessage[]>([
     { role: 'system', content: 'Welcome to Zen Go. Game started.', timestamp: Date.now() }
   ]);
   const [chatInput, setChatInput] = useState("");
+  // The tutor answer being streamed in, shown live until it is complete
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const sgfInputRef = useRef<HTMLInputElement>(null);
   const [showDebug, setShowDebug] = useState(false);
   const [lastDebugLog, setLastDebugLog] = useState<any>(null);
 
-  // Settings
-  // Using 127.0.0.1 is safer than localhost to avoid IPv6 resolution issues with Ollama
-  const [aiPlaying, setAiPlaying] = useState<StoneColor | null>(StoneColor.WHITE); 
-  const [ollamaBaseUrl, setOllamaBaseUrl] = useState("http://127.0.0.1:11434");
+  // Settings, starting from the ones saved on the last visit
+  const [storedSettings] = useState(loadSettings);
+  const [aiPlaying, setAiPlaying] = useState<StoneColor | null>(storedSettings.aiPlaying !== undefined ? storedSettings.aiPlaying : StoneColor.WHITE); 
+  const [aiProvider, setAiProvider] = useState<AiProviderType>(storedSettings.aiProvider ?? AiProviderType.OLLAMA);
+  const [aiBaseUrl, setAiBaseUrl] = useState(storedSettings.aiBaseUrl ?? AI_PROVIDERS[AiProviderType.OLLAMA].defaultBaseUrl);
   const [availableModels, setAvailableModels] = useState<string[]>([]);
-  const [ollamaModel, setOllamaModel] = useState("llama3");
+  const [aiModel, setAiModel] = useState(storedSettings.aiModel ?? "llama3");
+  // Moves, analysis and the tutor can each use another model and other sampling settings
+  const [taskSettings, setTaskSettings] = useState<Record<AiTask, TaskModelSettings>>(storedSettings.taskSettings ?? DEFAULT_TASK_SETTINGS);
+  const [moveEngine, setMoveEngine] = useState<MoveEngineType>(storedSettings.moveEngine ?? MoveEngineType.LLM);
+  const [moveConstraint, setMoveConstraint] = useState<MoveConstraint>(storedSettings.moveConstraint ?? MoveConstraint.NONE);
+  const [gtpBridgeUrl, setGtpBridgeUrl] = useState(storedSettings.gtpBridgeUrl ?? DEFAULT_GTP_BRIDGE_URL);
+  // Hybrid play: the engine chooses the move and the language model explains it
+  const [explainEngineMoves, setExplainEngineMoves] = useState(storedSettings.explainEngineMoves ?? true);
+  const [mctsPlayouts, setMctsPlayouts] = useState(storedSettings.mctsPlayouts ?? DEFAULT_MCTS_PLAYOUTS);
+  const [mctsTimeLimitMs, setMctsTimeLimitMs] = useState(storedSettings.mctsTimeLimitMs ?? DEFAULT_MCTS_TIME_LIMIT_MS);
+  // Let the offline bot move when the model or engine fails instead of stalling the game
+  const [offlineFallback, setOfflineFallback] = useState(storedSettings.offlineFallback ?? true);
+  // Time budget for each AI request, and how the AI finishes its turn when the budget runs out
+  const [aiTimeoutMs, setAiTimeoutMs] = useState(storedSettings.aiTimeoutMs ?? DEFAULT_AI_TIMEOUT_MS);
+  const [timeoutAction, setTimeoutAction] = useState<TimeoutAction>(storedSettings.timeoutAction ?? TimeoutAction.OFFLINE);
+  // The position the GTP engine was last brought to, so only the difference is sent next time
+  const gtpEngineRef = useRef<GtpPosition | null>(null);
+  const [koRule, setKoRule] = useState<KoRule>(storedSettings.koRule ?? KoRule.SIMPLE);
+  const [scoringRule, setScoringRule] = useState<ScoringRule>(storedSettings.scoringRule ?? ScoringRule.AREA);
+  const [scoreEstimatorType, setScoreEstimatorType] = useState<ScoreEstimatorType>(storedSettings.scoreEstimator ?? ScoreEstimatorType.INFLUENCE);
   const [showSettings, setShowSettings] = useState(false);
   const [isFetchingModels, setIsFetchingModels] = useState(false);
   const [showHelpModal, setShowHelpModal] = useState(false);
+  const [showNewGameDialog, setShowNewGameDialog] = useState(false);
+  // null while the list is being read from storage
+  const [savedGames, setSavedGames] = useState<SavedGameSummary[] | null>(null);
+  const [showSavedGames, setShowSavedGames] = useState(false);
+  const [showTsumego, setShowTsumego] = useState(false);
+  const [tsumegoStats, setTsumegoStats] = useState<TsumegoStats>(loadTsumegoStats);
   const [connectionStatus, setConnectionStatus] = useState<'idle' | 'success' | 'error'>('idle');
 
+  const backend: AiBackend = { provider: aiProvider, baseUrl: aiBaseUrl, model: aiModel };
+
+  // The server settings together with the model and sampling chosen for `task`
+  const backendFor = (task: AiTask): AiBackend => ({
+    ...backend,
+    model: taskSettings[task].model.trim() || aiModel,
+    options: taskSettings[task].options,
+  });
+
+  // The current position and the moves that led to it come from the selected tree node
+  const currentNode = gameTree.nodes[currentNodeId];
+  const board = currentNode.grid;
+  const currentTurn = currentNode.turn;
+  const captures = currentNode.captures;
+  const lastMove = currentNode.move;
+  const history = useMemo(() => pathToHistory(getNodePath(gameTree, currentNodeId)), [gameTree, currentNodeId]);
+  // The line through the current position, continuing along first children, for navigation
+  const currentLine = useMemo(() => getNodePath(gameTree, getLineEnd(gameTree, currentNodeId)), [gameTree, currentNodeId]);
+  const scoreEstimators = useMemo(() => createScoreEstimators(gtpBridgeUrl, gtpEngineRef), [gtpBridgeUrl]);
+
   // Initial fetch for models
   useEffect(() => {
     handleFetchModels(true);
   }, []);
 
+  // Pick up the game that was on the board when the page was last left
+  useEffect(() => {
+    const restoreLastGame = async () => {
+      try {
+        const id = getCurrentGameId();
+        const game = id ? await loadGame(id) : null;
+        if (game) applySavedGame(game);
+      } catch (e) {
+        console.warn("Could not restore the last game:", e);
+      } finally {
+        setIsRestoring(false);
+      }
+    };
+    restoreLastGame();
+  }, []);
+
+  useEffect(() => {
+    saveSettings({
+      aiPlaying, aiProvider, aiBaseUrl, aiModel, moveEngine, moveConstraint, gtpBridgeUrl, explainEngineMoves,
+      mctsPlayouts, mctsTimeLimitMs, offlineFallback, aiTimeoutMs, timeoutAction, koRule, scoringRule, taskSettings,
+      scoreEstimator: scoreEstimatorType,
+    });
+  }, [aiPlaying, aiProvider, aiBaseUrl, aiModel, moveEngine, moveConstraint, gtpBridgeUrl, explainEngineMoves,
+      mctsPlayouts, mctsTimeLimitMs, offlineFallback, aiTimeoutMs, timeoutAction, koRule, scoringRule, taskSettings,
+      scoreEstimatorType]);
+
+  // A new game becomes the one to restore right away, even before it is first saved
+  useEffect(() => {
+    if (!isRestoring) setCurrentGameId(gameId);
+  }, [gameId, isRestoring]);
+
+  // Save the game shortly after it changes. A game is only kept once it has a move, so opening
+  // the page or starting a new game does not fill the saved games list with empty boards.
+  useEffect(() => {
+    if (isRestoring || Object.keys(gameTree.nodes).length < 2) return;
+    const timer = setTimeout(() => {
+      const game: SavedGame = {
+        id: gameId,
+        savedAt: Date.now(),
+        setup: gameSetup,
+        tree: gameTree,
+        currentNodeId,
+        isBrowsing,
+        gamePhase,
+        consecutivePasses,
+        handicapStonesLeft,
+        deadStones,
+        gameResult,
+        chatHistory,
+        analysisData,
+      };
+      saveGame(game).catch(e => console.warn("Could not save the game:", e));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [isRestoring, gameId, gameSetup, gameTree, currentNodeId, isBrowsing, gamePhase, consecutivePasses, handicapStonesLeft, deadStones, gameResult, chatHistory, analysisData]);
+
+  // Estimates from another estimator, komi or game do not belong on the graph
+  useEffect(() => {
+    setScoreEstimates({});
+  }, [scoreEstimatorType, gameSetup.komi, gameId]);
+
+  // A live estimator counts the positions of the shown line it has not counted yet. Node ids
+  // are never reused within a game, so earlier estimates stay valid while browsing.
+  useEffect(() => {
+    const estimator = scoreEstimators[scoreEstimatorType];
+    if (!estimator.live) return;
+    let cancelled = false;
+    const estimateLine = async () => {
+      const estimates: Record<number, number> = {};
+      for (let i = 0; i < currentLine.length; i++) {
+        if (scoreEstimates[currentLine[i].id] !== undefined) continue;
+        estimates[currentLine[i].id] = await estimator.estimate(currentLine.slice(0, i + 1), gameSetup.komi);
+      }
+      if (!cancelled && Object.keys(estimates).length > 0) {
+        setScoreEstimates(prev => ({ ...prev, ...estimates }));
+      }
+    };
+    estimateLine();
+    return () => { cancelled = true; };
+  }, [currentLine, scoreEstimatorType, gameSetup.komi, scoreEstimates]);
+
   // Auto-scroll chat
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatHistory]);
 
+  // Live score while marking dead stones; recomputed whenever a group is toggled
+  const score = useMemo(() => {
+    if (gamePhase === 'playing') return null;
+    return scoreGame(board, { rule: scoringRule, komi: gameSetup.komi, handicap: gameSetup.handicap, captures, deadStones });
+  }, [gamePhase, board, scoringRule, captures, deadStones, gameSetup]);
+  const displayedScore = gameResult || score;
+  const ownershipMap = useMemo(() => showOwnership ? estimateOwnership(board) : null, [showOwnership, board]);
+  const groupStatuses = useMemo(() => showGroupStatus ? analyzeGroups(board) : null, [showGroupStatus, board]);
+
+  // Two consecutive passes end play and start dead-stone marking
+  useEffect(() => {
+    if (consecutivePasses >= 2 && gamePhase === 'playing' && !isBrowsing) {
+      setGamePhase('scoring');
+      setDeadStones([]);
+      setScoreConfirmed({ black: false, white: false });
+      addChatMessage('system', 'Both players passed. Click groups to mark them dead, then confirm the score.');
+    }
+  }, [consecutivePasses, gamePhase, isBrowsing]);
+
+  // Record the result once both sides have accepted it. An AI player accepts automatically.
+  useEffect(() => {
+    if (gamePhase !== 'scoring' || !score) return;
+    const blackAccepted = scoreConfirmed.black || aiPlaying === StoneColor.BLACK;
+    const whiteAccepted = scoreConfirmed.white || aiPlaying === StoneColor.WHITE;
+    if (blackAccepted && whiteAccepted) {
+      setGameResult(score);
+      setGamePhase('finished');
+      addChatMessage('system', `Game over: ${score.result}`);
+    }
+  }, [scoreConfirmed, gamePhase, score, aiPlaying]);
+
   const handleFetchModels = async (silent = false) => {
     if (!silent) setIsFetchingModels(true);
     setConnectionStatus('idle');
     setErrorMsg(null);
     try {
-        const models = await fetchOllamaModels(ollamaBaseUrl);
+        const models = await fetchModels(backend, { timeoutMs: aiTimeoutMs });
         setAvailableModels(models);
         // If we found models and current model is not in list (or default), select first one
-        if (models.length > 0 && (!ollamaModel || !models.includes(ollamaModel))) {
-            setOllamaModel(models[0]);
+        if (models.length > 0 && (!aiModel || !models.includes(aiModel))) {
+            setAiModel(models[0]);
         }
         if (!silent) setConnectionStatus('success');
     } catch (e) {
@@ -78,85 +275,171 @@ const App: React.FC = () => {
     }
   };
 
+  // Each server type has its own default address and model list
+  const handleProviderChange = (provider: AiProviderType) => {
+    cancelAiRequest();
+    setAiProvider(provider);
+    setAiBaseUrl(AI_PROVIDERS[provider].defaultBaseUrl);
+    setAvailableModels([]);
+    setConnectionStatus('idle');
+  };
+
+  // A request still running for the old model would answer for a model no longer selected
+  const handleModelChange = (model: string) => {
+    cancelAiRequest();
+    setAiModel(model);
+  };
+
+  const handleTaskSettingsChange = (task: AiTask, settings: TaskModelSettings) => {
+    if (settings.model !== taskSettings[task].model) cancelAiRequest();
+    setTaskSettings(prev => ({ ...prev, [task]: settings }));
+  };
+
+  const handleMoveEngineChange = (engine: MoveEngineType) => {
+    cancelAiRequest();
+    setMoveEngine(engine);
+  };
+
+  // Begin an AI request that can be cancelled and is limited to the configured time
+  const startAiRequest = (): RequestControl => {
+    const controller = new AbortController();
+    aiRequestRef.current = controller;
+    setIsThinking(true);
+    return { signal: controller.signal, timeoutMs: aiTimeoutMs };
+  };
+
+  // End a request that ran its course. Returns false when it was cancelled in the meantime; the
+  // app has moved on then and a newer request may already be running.
+  const finishAiRequest = (control: RequestControl): boolean => {
+    if (aiRequestRef.current?.signal !== control.signal) return false;
+    aiRequestRef.current = null;
+    setIsThinking(false);
+    return true;
+  };
+
+  // Stop whatever the AI is doing so a slow server never locks the user out
+  const cancelAiRequest = () => {
+    const controller = aiRequestRef.current;
+    if (!controller) return;
+    aiRequestRef.current = null;
+    controller.abort();
+    setIsThinking(false);
+    setStreamingReply(null);
+  };
+
   const addChatMessage = (role: 'user' | 'assistant' | 'system', content: string) => {
       setChatHistory(prev => [...prev, { role, content, timestamp: Date.now() }]);
   };
 
-  // Helper to append history
-  const addToHistory = () => {
-    setHistory(prev => [
-      ...prev,
-      {
-        grid: board.map(row => [...row]),
-        turn: currentTurn,
-        captures: { ...captures },
-        lastMove: lastMove ? { ...lastMove } : null
-      }
-    ]);
+  // Attach AI output to a position so it is kept with the move and exported to SGF
+  const addNodeComment = (nodeId: number, text: string) => {
+      setGameTree(prev => prev.nodes[nodeId] ? appendComment(prev, nodeId, text) : prev);
   };
 
-  const getCoordString = (x: number, y: number) => {
-      const letters = "ABCDEFGHJKLMNOPQRST";
-      return `${letters[x]}${BOARD_SIZE - y}`;
+  // Comment on the node reached by playing `move` from `parentId`, for text that arrives after
+  // the move was made
+  const addMoveComment = (parentId: number, move: Move, text: string) => {
+      setGameTree(prev => {
+          const nodeId = findChild(prev, parentId, move);
+          return nodeId === undefined ? prev : appendComment(prev, nodeId, text);
+      });
   };
 
+  const getCoordString = (x: number, y: number) => toGoCoordinate(x, y, board.length);
+
   const handleIntersectionClick = async (x: number, y: number) => {
     if (isThinking) return;
+    if (gamePhase === 'handicap') {
+      placeHandicapStone(x, y);
+      return;
+    }
+    if (gamePhase === 'scoring') {
+      setDeadStones(prev => toggleDeadGroup(board, prev, x, y));
+      setScoreConfirmed({ black: false, white: false });
+      return;
+    }
+    if (gamePhase === 'finished') return;
     if (aiPlaying === currentTurn) return; // Not human's turn
 
-    await executeMove(x, y, currentTurn);
+    // Playing a stone while browsing continues the game from the shown position
+    const result = await executeMove(x, y, currentTurn);
+    if (result.legal === true) setIsBrowsing(false);
   };
 
-  const executeMove = async (x: number, y: number, color: StoneColor): Promise<boolean> => {
-    // Validate coordinates
-    if (x < 0 || x >= BOARD_SIZE || y < 0 || y >= BOARD_SIZE) {
-      console.warn(`Invalid coordinates: (${x}, ${y})`);
-      return false;
-    }
-
-    const result = placeStone(board, x, y, color);
-    if (!result) {
-      console.warn(`Invalid move at (${x}, ${y}) - position occupied or suicide`);
-      return false; // Invalid move
+  const executeMove = async (x: number, y: number, color: StoneColor, comment?: string): Promise<MoveLegality> => {
+    const result = placeStone(board, x, y, color, { history, koRule, turn: currentTurn });
+    if (result.legal === false) {
+      const reason = ILLEGAL_MOVE_MESSAGES[result.reason];
+      console.warn(`Invalid move at (${x}, ${y}) - ${reason}`);
+      if (color !== aiPlaying) {
+        const where = result.reason === 'out_of_bounds' ? `(${x}, ${y})` : getCoordString(x, y);
+        setIllegalMoveMsg(`Cannot play ${where}: ${reason}.`);
+      }
+      return result;
     }
 
     const colorName = color === StoneColor.BLACK ? "Black" : "White";
     const icon = color === StoneColor.BLACK ? "⚫" : "⚪";
     addChatMessage('system', `${icon} ${colorName} played at ${getCoordString(x, y)}`);
 
-    addToHistory();
-    setBoard(result.newGrid);
-    setLastMove({ x, y });
-    setErrorMsg(null);
-    
     // Update captures
     const captured = result.capturedCount;
     if (captured > 0) {
         addChatMessage('system', `${captured} stone(s) captured.`);
     }
+    const newCaptures = color === StoneColor.BLACK
+      ? { ...captures, white: captures.white + captured }
+      : { ...captures, black: captures.black + captured };
 
-    if (color === StoneColor.BLACK) {
-      setCaptures(prev => ({ ...prev, white: prev.white + captured }));
-    } else {
-      setCaptures(prev => ({ ...prev, black: prev.black + captured }));
-    }
-
-    // Switch turn
-    const nextTurn = color === StoneColor.BLACK ? StoneColor.WHITE : StoneColor.BLACK;
-    setCurrentTurn(nextTurn);
+    // Playing from an earlier position adds a variation instead of overwriting the old line
+    const { tree, nodeId } = addMoveNode(gameTree, currentNodeId, { x, y }, color, result.newGrid, newCaptures, comment);
+    setGameTree(tree);
+    setCurrentNodeId(nodeId);
+    setErrorMsg(null);
+    setIllegalMoveMsg(null);
+    setConsecutivePasses(0);
     setAnalysisData([]); // Clear old analysis
     setAiSuggestion(null);
-    return true;
+    return result;
+  };
+
+  // Passing keeps the board as it is but is still recorded in the tree, so undo, ko checks and
+  // the move summary all see it. Two passes in a row move the game into the scoring phase.
+  const executePass = (color: StoneColor) => {
+    const colorName = color === StoneColor.BLACK ? "Black" : "White";
+    const icon = color === StoneColor.BLACK ? "⚫" : "⚪";
+    addChatMessage('system', `${icon} ${colorName} passed`);
+
+    const { tree, nodeId } = addMoveNode(gameTree, currentNodeId, 'pass', color, board, captures);
+    setGameTree(tree);
+    setCurrentNodeId(nodeId);
+    setErrorMsg(null);
+    setIllegalMoveMsg(null);
+    setConsecutivePasses(prev => prev + 1);
+    setAnalysisData([]);
+    setAiSuggestion(null);
+  };
+
+  const handlePass = () => {
+    if (isThinking || gamePhase !== 'playing') return;
+    if (aiPlaying === currentTurn) return; // Not human's turn
+    setIsBrowsing(false);
+    executePass(currentTurn);
   };
 
   const handleAiError = (err: any) => {
-     let msg = "Failed to connect to Ollama.";
+     // The server answered, just not usefully; the connection help would be misleading
+     if (err instanceof ModelResponseError || err instanceof AiTimeoutError) {
+         addChatMessage('system', `Error: ${err.message}`);
+         return;
+     }
+     let msg = `Failed to connect to ${AI_PROVIDERS[aiProvider].label}.`;
      if (err instanceof TypeError && err.message.includes("Failed to fetch")) {
          // Check for mixed content issue
-         if (window.location.protocol === 'https:' && ollamaBaseUrl.startsWith('http:')) {
+         if (window.location.protocol === 'https:' && aiBaseUrl.startsWith('http:')) {
             msg = "Mixed Content Error: Browser blocked HTTP request from HTTPS. Please run this app locally or enable 'Insecure content'.";
          } else {
-            msg = `Connection failed. Browser blocked the request to ${ollamaBaseUrl}.`;
+            msg = `Connection failed. Browser blocked the request to ${aiBaseUrl}.`;
          }
          setShowHelpModal(true);
      } else if (err instanceof Error) {
@@ -166,84 +449,310 @@ const App: React.FC = () => {
      addChatMessage('system', `Error: ${msg}`);
   };
 
+  // The current position in the form the GTP engine is synced to
+  const getGtpPosition = (): GtpPosition =>
+    pathToGtpPosition(getNodePath(gameTree, currentNodeId), gameSetup.komi);
+
+  // Let the engine choose the AI's move. Its choice is still checked by our rules, since the
+  // engine may use a different ko rule.
+  const playGtpMove = async (control: RequestControl) => {
+    const target = getGtpPosition();
+    const known = gtpEngineRef.current;
+    // A cancelled or timed out command may still have been carried out, so the engine's
+    // position is unknown until it answers
+    gtpEngineRef.current = null;
+    const move = await withTimeout(control, async signal => {
+      await syncGtpEngine(gtpBridgeUrl, known, target, signal);
+      return gtpGenmove(gtpBridgeUrl, currentTurn, board.length, signal);
+    });
+    setLastDebugLog({ engine: 'gtp', position: target.moves.length, genmove: move });
+
+    if (move === 'resign') {
+      gtpEngineRef.current = target;
+      const winner = currentTurn === StoneColor.BLACK ? StoneColor.WHITE : StoneColor.BLACK;
+      const result = `${winner === StoneColor.BLACK ? 'B' : 'W'}+R`;
+      const finalScore = scoreGame(board, { rule: scoringRule, komi: gameSetup.komi, handicap: gameSetup.handicap, captures });
+      setGameResult({ ...finalScore, winner, margin: 0, result });
+      setGamePhase('finished');
+      addNodeComment(currentNodeId, 'Engine resigned.');
+      addChatMessage('system', `The engine resigned. Game over: ${result}`);
+      return;
+    }
+
+    gtpEngineRef.current = { ...target, moves: [...target.moves, { color: currentTurn, move }] };
+    if (move === 'pass') {
+      executePass(currentTurn);
+    } else {
+      const outcome = await executeMove(move.x, move.y, currentTurn);
+      if (outcome.legal === false) {
+        setAiSuggestion(`Engine move ${getCoordString(move.x, move.y)} was rejected: ${ILLEGAL_MOVE_MESSAGES[outcome.reason]}. Passing instead.`);
+        executePass(currentTurn);
+        return;
+      }
+    }
+
+    if (explainEngineMoves) await explainEngineMove(move, control);
+  };
+
+  // Let the built-in Monte Carlo bot choose the move
+  // The search keeps to its own time limit, so only cancelling applies to it
+  const playOfflineMove = async (explain: boolean, control: RequestControl) => {
+    const result = await getOfflineMove(board, currentTurn, history, {
+      playouts: mctsPlayouts,
+      timeLimitMs: mctsTimeLimitMs,
+      komi: gameSetup.komi,
+      koRule,
+      passes: countTrailingPasses(gameTree, currentNodeId),
+    }, control.signal);
+    setLastDebugLog({ engine: 'mcts', ...result });
+
+    const { move } = result;
+    if (move === 'pass') {
+      executePass(currentTurn);
+    } else {
+      const outcome = await executeMove(move.x, move.y, currentTurn);
+      if (outcome.legal === false) {
+        executePass(currentTurn);
+        return;
+      }
+    }
+
+    if (explain) await explainEngineMove(move, control);
+  };
+
+  const fallBackToOfflineBot = async (reason: string, control: RequestControl) => {
+    addChatMessage('system', `${reason} The offline bot plays this move instead.`);
+    try {
+      await playOfflineMove(false, control);
+    } catch (e) {
+      if (!isAbortError(e)) handleAiError(e);
+    }
+  };
+
+  // Finish the AI's turn after its move request ran out of time and will not be asked again
+  const handleMoveTimeout = async (error: AiTimeoutError, control: RequestControl) => {
+    const useOfflineBot = timeoutAction === TimeoutAction.OFFLINE ||
+      (timeoutAction === TimeoutAction.RETRY && offlineFallback);
+    if (useOfflineBot) {
+      await fallBackToOfflineBot(`${error.message}.`, control);
+      return;
+    }
+    setAiSuggestion(`Pass (${error.message})`);
+    executePass(currentTurn);
+  };
+
+  // Ask the language model why the engine's move is good. The move has already been played, so
+  // a failure here only loses the explanation.
+  const explainEngineMove = async (move: Move, control: RequestControl) => {
+    try {
+      const moveHistory = [...history, { turn: currentTurn, lastMove }];
+      const { result: explanation, payload } = await explainMove(board, currentTurn, move, gameSetup, moveHistory, backendFor(AiTask.CHAT), control);
+      setLastDebugLog(payload);
+      setAiSuggestion(explanation);
+      addChatMessage('assistant', `AI Thought: ${explanation}`);
+      addMoveComment(currentNodeId, move, explanation);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      addChatMessage('system', `Could not explain the engine's move: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // Legal moves the model may choose from, without the ones it already had rejected
+  const getMoveCandidates = (rejectedMoves: RejectedMove[] = []) => {
+    if (moveConstraint === MoveConstraint.NONE) return [];
+    return getCandidateMoves(board, currentTurn, { history, koRule, turn: currentTurn })
+      .filter(move => !rejectedMoves.some(r => r.x === move.x && r.y === move.y));
+  };
+
   // AI Turn Effect
   useEffect(() => {
-    if (currentTurn === aiPlaying && !isThinking) {
+    if (currentTurn === aiPlaying && !isThinking && gamePhase === 'playing' && !isBrowsing && !isRestoring && !showTsumego) {
       const makeAiMove = async () => {
-        setIsThinking(true);
+        const control = startAiRequest();
         setErrorMsg(null);
-        let retryCount = 0;
         const maxRetries = 2; // Reduced retries
-        
-        while (retryCount <= maxRetries) {
-          try {
-            const { result: move, payload } = await getBestMove(board, currentTurn, ollamaModel, ollamaBaseUrl);
-            setLastDebugLog(payload);
-            
-            if (move) {
-              // Validate move coordinates
-              if (move.x >= 0 && move.x < BOARD_SIZE && move.y >= 0 && move.y < BOARD_SIZE) {
-                const success = await executeMove(move.x, move.y, currentTurn);
-                if (success) {
-                  const reasoning = move.explanation || "Strategic placement.";
-                  setAiSuggestion(reasoning);
-                  addChatMessage('assistant', `AI Thought: ${reasoning}`);
-                  break; // Success, exit retry loop
-                } else {
-                  // Invalid move logic (occupied etc)
-                  retryCount++;
-                  setAiSuggestion(`AI tried invalid move (${move.x}, ${move.y}), retrying...`);
+
+        if (moveEngine !== MoveEngineType.LLM) {
+          for (let attempt = 0; ; attempt++) {
+            try {
+              if (moveEngine === MoveEngineType.GTP) await playGtpMove(control);
+              else await playOfflineMove(explainEngineMoves, control);
+            } catch (e) {
+              if (isAbortError(e)) break; // Cancelled; the position has already moved on
+              if (e instanceof AiTimeoutError) {
+                if (timeoutAction === TimeoutAction.RETRY && attempt < maxRetries) {
+                  addChatMessage('system', `${e.message}, asking the engine again.`);
+                  continue;
                 }
+                await handleMoveTimeout(e, control);
               } else {
-                retryCount++;
+                handleAiError(e);
+                if (offlineFallback && moveEngine === MoveEngineType.GTP) await fallBackToOfflineBot("The GTP engine failed.", control);
               }
-            } else {
-                // Null move returned
-                retryCount++;
             }
+            break;
+          }
+          finishAiRequest(control);
+          return;
+        }
+
+        let retryCount = 0;
+        const rejectedMoves: RejectedMove[] = [];
+        
+        while (retryCount <= maxRetries) {
+          try {
+            const candidates = getMoveCandidates(rejectedMoves);
+            if (moveConstraint !== MoveConstraint.NONE && candidates.length === 0) {
+                setAiSuggestion("Pass (no legal moves left to choose from)");
+                executePass(currentTurn);
+                break;
+            }
+            const { result: move, payload } = await getBestMove(board, currentTurn, gameSetup, backendFor(AiTask.MOVE), rejectedMoves, moveConstraint, candidates, control);
+            setLastDebugLog(payload);
             
-            if (retryCount > maxRetries) {
-                 const msg = "Pass (AI failed to find valid move)";
-                 setAiSuggestion(msg);
-                 addChatMessage('system', `AI Passed.`);
-                 const nextTurn = currentTurn === StoneColor.BLACK ? StoneColor.WHITE : StoneColor.BLACK;
-                 setCurrentTurn(nextTurn);
-                 break;
+            const reasoning = move.explanation || "Strategic placement.";
+            const outcome = await executeMove(move.x, move.y, currentTurn, reasoning);
+            if (outcome.legal === true) {
+              setAiSuggestion(reasoning);
+              addChatMessage('assistant', `AI Thought: ${reasoning}`);
+              break; // Success, exit retry loop
             }
+            // Rejected by the rules; remember why so the next prompt can say so
+            rejectedMoves.push({ x: move.x, y: move.y, reason: outcome.reason });
+            setAiSuggestion(`AI tried invalid move (${move.x}, ${move.y}): ${ILLEGAL_MOVE_MESSAGES[outcome.reason]}, retrying...`);
           } catch (e) {
-            handleAiError(e);
-            break;
+            if (isAbortError(e)) break; // Cancelled; the position has already moved on
+            const timedOut = e instanceof AiTimeoutError;
+            if (timedOut && timeoutAction !== TimeoutAction.RETRY) {
+              await handleMoveTimeout(e, control);
+              break;
+            }
+            if (!timedOut && !(e instanceof ModelResponseError)) {
+              handleAiError(e);
+              if (offlineFallback) await fallBackToOfflineBot("The model could not be reached.", control);
+              break;
+            }
+            // A malformed or late reply is worth another try, just like an illegal move
+            setAiSuggestion(`${e.message}, retrying...`);
+          }
+
+          retryCount++;
+          if (retryCount > maxRetries) {
+              if (offlineFallback) {
+                  await fallBackToOfflineBot("The model did not find a legal move.", control);
+                  break;
+              }
+              const msg = "Pass (AI failed to find valid move)";
+              setAiSuggestion(msg);
+              executePass(currentTurn);
+              break;
           }
         }
-        setIsThinking(false);
+        finishAiRequest(control);
       };
       makeAiMove();
     }
-  }, [currentTurn, aiPlaying, board, ollamaModel, ollamaBaseUrl]);
+  }, [currentTurn, aiPlaying, gameTree, currentNodeId, aiProvider, aiModel, taskSettings, aiBaseUrl, moveEngine, gtpBridgeUrl, explainEngineMoves, mctsPlayouts, mctsTimeLimitMs, offlineFallback, aiTimeoutMs, timeoutAction, moveConstraint, koRule, gamePhase, gameSetup, isBrowsing, isRestoring, showTsumego]);
 
-  const handleSendMessage = async () => {
-      if (!chatInput.trim() || isThinking) return;
-      
-      const userMsg = chatInput.trim();
-      setChatInput("");
+  // When a game against the engine reaches scoring, show the engine's own count for comparison
+  useEffect(() => {
+    if (gamePhase !== 'scoring' || moveEngine !== MoveEngineType.GTP || aiPlaying === null) return;
+    const requestEngineScore = async () => {
+      const target = getGtpPosition();
+      const known = gtpEngineRef.current;
+      gtpEngineRef.current = null;
+      try {
+        const engineScore = await withTimeout({ timeoutMs: aiTimeoutMs }, async signal => {
+          await syncGtpEngine(gtpBridgeUrl, known, target, signal);
+          return gtpFinalScore(gtpBridgeUrl, signal);
+        });
+        gtpEngineRef.current = target;
+        addChatMessage('system', `Engine's count: ${engineScore}`);
+      } catch (e) {
+        console.warn("Could not get the engine's score", e);
+      }
+    };
+    requestEngineScore();
+  }, [gamePhase]);
+
+  // Stream the tutor's answer into the chat. onAnswer also gets a reply that was cut off.
+  const askTutor = async (
+      userMsg: string,
+      grid: StoneColor[][],
+      player: StoneColor,
+      gameInfo: { komi: number; handicap: number },
+      moveHistory: { turn: StoneColor, lastMove: Move | null }[],
+      onAnswer?: (text: string) => void
+  ) => {
       addChatMessage('user', userMsg);
-      setIsThinking(true);
+      const control = startAiRequest();
+      let partial = "";
+      setStreamingReply(""); // Shows the Stop button until the answer is complete
 
       try {
           const apiHistory = chatHistory
             .filter(m => m.role !== 'system')
             .map(m => ({ role: m.role, content: m.content }));
             
-          const { result: response, payload } = await sendChat(board, currentTurn, apiHistory, history, userMsg, ollamaModel, ollamaBaseUrl);
+          const { result: response, payload } = await sendChat(
+              grid, player, gameInfo, apiHistory, moveHistory, userMsg, backendFor(AiTask.CHAT),
+              (token) => {
+                  partial += token;
+                  setStreamingReply(partial);
+              },
+              control
+          );
           setLastDebugLog(payload);
           addChatMessage('assistant', response);
+          onAnswer?.(response);
       } catch (e) {
-          handleAiError(e);
+          if (isAbortError(e) || e instanceof AiTimeoutError) {
+              // Keep what had arrived before the answer was stopped or ran out of time
+              if (partial) {
+                  addChatMessage('assistant', partial);
+                  onAnswer?.(partial);
+              }
+              addChatMessage('system', e instanceof AiTimeoutError ? `Response cut off: ${e.message}.` : 'Response stopped.');
+          } else {
+              handleAiError(e);
+          }
       } finally {
-          setIsThinking(false);
+          if (finishAiRequest(control)) setStreamingReply(null);
       }
   };
 
+  const handleSendMessage = async () => {
+      if (!chatInput.trim() || isThinking) return;
+
+      const userMsg = chatInput.trim();
+      setChatInput("");
+      const askedAtNode = currentNodeId;
+      const moveHistory = [...history, { turn: currentTurn, lastMove }];
+      await askTutor(userMsg, board, currentTurn, gameSetup, moveHistory, (text) => addNodeComment(askedAtNode, text));
+  };
+
+  const handleTsumegoResult = (solved: boolean) => {
+      const stats = solved
+        ? { ...tsumegoStats, solved: tsumegoStats.solved + 1 }
+        : { ...tsumegoStats, failed: tsumegoStats.failed + 1 };
+      setTsumegoStats(stats);
+      saveTsumegoStats(stats);
+  };
+
+  // Ask the tutor why a problem answer fails, showing it the position before the wrong move
+  const handleExplainTsumego = (mistake: TsumegoMistake) => {
+      if (isThinking) return;
+      const size = mistake.grid.length;
+      const player = mistake.toPlay === StoneColor.BLACK ? "Black" : "White";
+      const correct = mistake.correctMoves.map(p => toGoCoordinate(p.x, p.y, size)).join(" or ");
+      let userMsg = `I am solving the life-and-death problem "${mistake.problemTitle}" with ${player} to play. ` +
+        `I played ${toGoCoordinate(mistake.move.x, mistake.move.y, size)} and it is wrong.`;
+      if (correct) userMsg += ` The problem's answer is ${correct}.`;
+      if (mistake.comment) userMsg += ` The problem notes: "${mistake.comment}".`;
+      userMsg += " Why does my move fail, and what is the key idea?";
+      askTutor(userMsg, mistake.grid, mistake.toPlay, { komi: 0, handicap: 0 }, []);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
       if (e.key === 'Enter' && !e.shiftKey) {
           e.preventDefault();
@@ -251,90 +760,450 @@ const App: React.FC = () => {
       }
   };
 
+  // Leave the scoring phase and forget any dead-stone marks or recorded result
+  const resetScoring = () => {
+    setGamePhase('playing');
+    setConsecutivePasses(0);
+    setDeadStones([]);
+    setScoreConfirmed({ black: false, white: false });
+    setGameResult(null);
+  };
+
+  const handleResumePlay = () => {
+    resetScoring();
+    addChatMessage('system', 'Play resumed.');
+  };
+
+  const handleConfirmScore = (color: StoneColor) => {
+    setScoreConfirmed(prev => color === StoneColor.BLACK ? { ...prev, black: true } : { ...prev, white: true });
+  };
+
+  // Move to another position in the tree. Nothing is deleted; playing a different move from
+  // here starts a new variation.
+  const goToNode = (nodeId: number, tree: GameTree = gameTree) => {
+    setCurrentNodeId(nodeId);
+    setAiSuggestion(null);
+    setAnalysisData([]);
+    setErrorMsg(null);
+    setIllegalMoveMsg(null);
+    resetScoring();
+    // Restore a pending pass so one more pass still ends the game
+    setConsecutivePasses(countTrailingPasses(tree, nodeId));
+  };
+
+  // View another position without changing the game. A finished game keeps its result so the
+  // record can be replayed; otherwise leaving the position also leaves any scoring in progress.
+  const browseTo = (nodeId: number) => {
+    if (nodeId === currentNodeId || isThinking) return;
+    if (gamePhase === 'finished') {
+      setCurrentNodeId(nodeId);
+      setAnalysisData([]);
+      setAiSuggestion(null);
+    } else {
+      goToNode(nodeId);
+    }
+    setIsBrowsing(true);
+  };
+
+  const handleSeek = (moveNumber: number) => {
+    const target = currentLine[Math.max(0, Math.min(moveNumber, currentLine.length - 1))];
+    browseTo(target.id);
+  };
+
+  // Step between sibling variations at the current move
+  const handleSwitchVariation = (direction: 1 | -1) => {
+    if (currentNode.parent === null) return;
+    const siblings = gameTree.nodes[currentNode.parent].children;
+    const index = siblings.indexOf(currentNodeId) + direction;
+    if (index >= 0 && index < siblings.length) browseTo(siblings[index]);
+  };
+
+  // Continue playing from the shown position; the AI moves next if it is its turn
+  const handleResumeFromHere = () => {
+    goToNode(currentNodeId);
+    setIsBrowsing(false);
+    addChatMessage('system', `Resumed play from move ${history.length}.`);
+  };
+
+  // Arrow keys browse the game unless the user is typing or solving problems
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) return;
+      if (showTsumego) return; // The game is hidden behind the problems
+      const moveNumber = history.length;
+      if (e.key === 'ArrowLeft') handleSeek(moveNumber - 1);
+      else if (e.key === 'ArrowRight') handleSeek(moveNumber + 1);
+      else if (e.key === 'Home') handleSeek(0);
+      else if (e.key === 'End') handleSeek(currentLine.length - 1);
+      else if (e.key === 'ArrowUp') handleSwitchVariation(-1);
+      else if (e.key === 'ArrowDown') handleSwitchVariation(1);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
   const handleUndo = () => {
-    if (history.length === 0) return;
-    if (isThinking) return;
+    if (currentNode.parent === null) return;
+    cancelAiRequest();
 
-    // Undo 2 steps if playing against AI to get back to user turn, unless AI is off
+    // Undo 2 steps if playing against AI to get back to user turn, unless AI is off. While the
+    // AI is still to move, one step already takes back the user's last move.
     let steps = 1;
-    if (aiPlaying && history.length >= 2) {
+    if (aiPlaying && currentTurn !== aiPlaying && history.length >= 2) {
         steps = 2;
     }
 
-    const targetStateIndex = history.length - steps;
-    if (targetStateIndex < 0) {
-        // Reset to start
-        handleNewGame();
-        return;
+    let targetId = currentNodeId;
+    for (let i = 0; i < steps && gameTree.nodes[targetId].parent !== null; i++) {
+        targetId = gameTree.nodes[targetId].parent!;
     }
+    goToNode(targetId);
+    setIsBrowsing(false);
+    addChatMessage('system', 'Undo performed.');
+  };
 
-    const prevState = history[targetStateIndex];
-    setBoard(prevState.grid.map(row => [...row]));
-    setCurrentTurn(prevState.turn);
-    setCaptures(prevState.captures);
-    setLastMove(prevState.lastMove);
-    setHistory(prev => prev.slice(0, targetStateIndex));
+  const handleDeleteBranch = (nodeId: number) => {
+    const parentId = gameTree.nodes[nodeId].parent;
+    if (parentId === null || isThinking) return;
+    const tree = deleteBranch(gameTree, nodeId);
+    setGameTree(tree);
+    goToNode(parentId, tree);
+    addChatMessage('system', 'Variation deleted.');
+  };
+
+  const handlePromoteBranch = (nodeId: number) => {
+    setGameTree(promoteToMainLine(gameTree, nodeId));
+  };
+
+  const handleNewGame = (setup: GameSetup = gameSetup) => {
+    cancelAiRequest();
+    setGameId(createGameId());
+    setReview(null);
+    setGameSetup(setup);
+    setShowNewGameDialog(false);
+    setCurrentNodeId(0);
+    setIsBrowsing(false);
     setAiSuggestion(null);
     setAnalysisData([]);
     setErrorMsg(null);
-    addChatMessage('system', 'Undo performed.');
+    setIllegalMoveMsg(null);
+    resetScoring();
+
+    const sizeLabel = `${setup.boardSize}x${setup.boardSize}`;
+    const komiLabel = `komi ${setup.komi}`;
+    const grid = createEmptyBoard(setup.boardSize);
+
+    if (setup.handicap < 2) {
+      setGameTree(createGameTree(grid, StoneColor.BLACK));
+      setHandicapStonesLeft(0);
+      setChatHistory([{ role: 'system', content: `New ${sizeLabel} Game Started (${komiLabel}).`, timestamp: Date.now() }]);
+      return;
+    }
+
+    // An AI Black cannot choose free placement, so it always gets the fixed points
+    if (setup.handicapPlacement === 'free' && aiPlaying !== StoneColor.BLACK) {
+      setGameTree(createGameTree(grid, StoneColor.BLACK));
+      setHandicapStonesLeft(setup.handicap);
+      setGamePhase('handicap');
+      setChatHistory([{ role: 'system', content: `New ${sizeLabel} Game Started (${komiLabel}). Black: place ${setup.handicap} handicap stones.`, timestamp: Date.now() }]);
+      return;
+    }
+
+    getHandicapPoints(setup.boardSize, setup.handicap).forEach(p => {
+      grid[p.y][p.x] = StoneColor.BLACK;
+    });
+    setGameTree(createGameTree(grid, StoneColor.WHITE)); // White moves first after handicap
+    setHandicapStonesLeft(0);
+    setChatHistory([{ role: 'system', content: `New ${sizeLabel} Game Started (${setup.handicap} stone handicap, ${komiLabel}).`, timestamp: Date.now() }]);
+  };
+
+  // Free handicap placement: each click adds a black stone until all are placed, then White moves
+  const placeHandicapStone = (x: number, y: number) => {
+    if (board[y][x] !== StoneColor.EMPTY || handicapStonesLeft <= 0) return;
+    const newGrid = board.map(row => [...row]);
+    newGrid[y][x] = StoneColor.BLACK;
+
+    const remaining = handicapStonesLeft - 1;
+    const turn = remaining === 0 ? StoneColor.WHITE : StoneColor.BLACK;
+    setGameTree(updateNode(gameTree, gameTree.rootId, { grid: newGrid, turn }));
+    setScoreEstimates({}); // The root position changed under its cached estimate
+    setHandicapStonesLeft(remaining);
+    if (remaining === 0) {
+      setGamePhase('playing');
+      addChatMessage('system', 'Handicap stones placed. White to play.');
+    }
+  };
+
+  // Export the whole game tree; AI explanations and tutor answers are stored as node comments
+  const handleExportSgf = () => {
+    const aiName = moveEngine === MoveEngineType.GTP ? 'AI (GTP engine)'
+      : moveEngine === MoveEngineType.MCTS ? 'AI (offline MCTS bot)'
+      : `AI (${backendFor(AiTask.MOVE).model})`;
+    const sgf = serializeSgf({
+      boardSize: board.length,
+      komi: gameSetup.komi,
+      handicap: gameSetup.handicap,
+      playerBlack: aiPlaying === StoneColor.BLACK ? aiName : 'Human',
+      playerWhite: aiPlaying === StoneColor.WHITE ? aiName : 'Human',
+      result: gameResult?.result,
+    }, gameTree);
+
+    const blob = new Blob([sgf], { type: 'application/x-go-sgf' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `zen-go-${new Date().toISOString().slice(0, 10)}.sgf`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoadSgf = (text: string, fileName: string) => {
+    try {
+      const { info, tree } = loadSgf(text);
+      cancelAiRequest();
+      setGameId(createGameId());
+      setReview(null);
+
+      setGameSetup({ boardSize: info.boardSize, handicap: info.handicap, handicapPlacement: 'fixed', komi: info.komi });
+      setGameTree(tree);
+      setHandicapStonesLeft(0);
+      const endId = getLineEnd(tree, tree.rootId);
+      goToNode(endId, tree);
+      setIsBrowsing(true); // Review the record first; Resume continues it
+      setConsecutivePasses(0); // A finished record should not jump straight into scoring
+
+      const players = `${info.playerBlack || 'Black'} vs ${info.playerWhite || 'White'}`;
+      const moveCount = getNodePath(tree, endId).length - 1;
+      setChatHistory([{
+        role: 'system',
+        content: `Loaded ${fileName}: ${players}, ${info.boardSize}x${info.boardSize}, ${moveCount} moves${info.result ? `, result ${info.result}` : ''}.`,
+        timestamp: Date.now(),
+      }]);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setIllegalMoveMsg(`Could not load ${fileName}: ${msg}`);
+    }
+  };
+
+  const readSgfFile = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => handleLoadSgf(String(reader.result), file.name);
+    reader.readAsText(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (showTsumego) return; // Problem collections are dropped onto the trainer itself
+    const file = e.dataTransfer.files?.[0];
+    if (file) readSgfFile(file);
   };
 
-  const handleNewGame = () => {
-    setBoard(createEmptyBoard());
-    setHistory([]);
-    setCurrentTurn(StoneColor.BLACK);
-    setCaptures({ black: 0, white: 0 });
-    setLastMove(null);
+  // Put a saved game back on the board exactly as it was left
+  const applySavedGame = (game: SavedGame) => {
+    cancelAiRequest();
+    setGameId(game.id);
+    setReview(null);
+    setGameSetup(game.setup);
+    setGameTree(game.tree);
+    setCurrentNodeId(game.currentNodeId);
+    setIsBrowsing(game.isBrowsing);
+    setGamePhase(game.gamePhase);
+    setConsecutivePasses(game.consecutivePasses);
+    setHandicapStonesLeft(game.handicapStonesLeft);
+    setDeadStones(game.deadStones);
+    setScoreConfirmed({ black: false, white: false });
+    setGameResult(game.gameResult);
+    setChatHistory(game.chatHistory);
+    setAnalysisData(game.analysisData);
     setAiSuggestion(null);
-    setAnalysisData([]);
     setErrorMsg(null);
-    setChatHistory([{ role: 'system', content: 'New Game Started.', timestamp: Date.now() }]);
+    setIllegalMoveMsg(null);
+  };
+
+  const handleShowSavedGames = async () => {
+    setShowSavedGames(true);
+    setSavedGames(null);
+    try {
+      setSavedGames(await listSavedGames());
+    } catch (e) {
+      console.warn("Could not list saved games:", e);
+      setSavedGames([]);
+    }
+  };
+
+  const handleResumeSavedGame = async (id: string) => {
+    try {
+      const game = await loadGame(id);
+      if (!game) throw new Error("it is no longer saved");
+      applySavedGame(game);
+      setShowSavedGames(false);
+    } catch (e) {
+      const msg = e instanceof Error ? e.message : String(e);
+      setIllegalMoveMsg(`Could not open the saved game: ${msg}`);
+    }
+  };
+
+  const handleDeleteSavedGame = async (id: string) => {
+    try {
+      await deleteGame(id);
+      setSavedGames(prev => prev && prev.filter(game => game.id !== id));
+    } catch (e) {
+      console.warn("Could not delete the saved game:", e);
+    }
+  };
+
+  // Candidate moves for the last position of `path`, from the chosen analysis source
+  const analyzePosition = async (path: GameNode[], source: AnalysisSource, control: RequestControl) => {
+    const position = path[path.length - 1];
+    if (source === AnalysisSource.MCTS) {
+      return getOfflineAnalysis(position.grid, position.turn, pathToHistory(path), {
+        playouts: mctsPlayouts,
+        timeLimitMs: mctsTimeLimitMs,
+        komi: gameSetup.komi,
+        koRule,
+        passes: countTrailingPasses(gameTree, position.id),
+      }, control.signal);
+    }
+    const { result } = await getBoardAnalysis(position.grid, position.turn, gameSetup, backendFor(AiTask.ANALYSIS), control);
+    return result;
+  };
+
+  // Analyze the position before every move of the shown line and compare each move played with
+  // the candidates. Passes are skipped; a position the model cannot answer for is skipped too
+  // rather than ending the review.
+  const handleReviewGame = async (source: AnalysisSource) => {
+    if (isThinking) return;
+    const line = currentLine;
+    const total = line.filter(node => node.move !== null && node.move !== 'pass').length;
+    const control = startAiRequest();
+    setErrorMsg(null);
+    setReview({ source, reviews: [], total, skipped: 0, status: 'running' });
+    addChatMessage('system', `Reviewing ${total} moves...`);
+
+    const reviews: MoveReview[] = [];
+    try {
+      for (let i = 1; i < line.length; i++) {
+        const node = line[i];
+        if (node.move === 'pass') continue;
+        let candidates: AnalysisPoint[] = [];
+        let skipped = false;
+        try {
+          candidates = await analyzePosition(line.slice(0, i), source, control);
+        } catch (e) {
+          if (!(e instanceof ModelResponseError || e instanceof AiTimeoutError)) throw e;
+          skipped = true;
+        }
+        const moveReview = reviewMove(node.id, i, node.color!, node.move!, candidates);
+        reviews.push(moveReview);
+        setReview(prev => prev && {
+          ...prev,
+          reviews: [...prev.reviews, moveReview],
+          skipped: prev.skipped + (skipped ? 1 : 0),
+        });
+      }
+    } catch (e) {
+      if (!isAbortError(e)) handleAiError(e);
+      setReview(prev => prev && { ...prev, status: 'stopped' });
+      finishAiRequest(control);
+      return;
+    }
+
+    if (!finishAiRequest(control)) return;
+    setReview(prev => prev && { ...prev, status: 'done' });
+    const mistakes = biggestMistakes(reviews);
+    mistakes.forEach(mistake => {
+      const best = mistake.candidates[0];
+      addNodeComment(mistake.nodeId, `Review: ${getCoordString(best.x, best.y)} was better (${Math.round(best.weight)}%). ${best.reasoning}`);
+    });
+    const summary = mistakes
+      .map(mistake => `move ${mistake.moveNumber} (${mistake.move === 'pass' ? 'pass' : getCoordString(mistake.move.x, mistake.move.y)})`)
+      .join(', ');
+    addChatMessage('assistant', mistakes.length > 0
+      ? `Review complete. Biggest mistakes: ${summary}.`
+      : 'Review complete. No big mistakes found.');
+  };
+
+  // Show the position before a reviewed move with the candidates it was measured against
+  const handleJumpToReview = (moveReview: MoveReview) => {
+    if (isThinking) return;
+    const parentId = gameTree.nodes[moveReview.nodeId]?.parent;
+    if (parentId === null || parentId === undefined) return;
+    browseTo(parentId);
+    setAnalysisData(moveReview.candidates);
+    setShowAnalysis(true);
+  };
+
+  // Run a slow estimator over the positions of the shown line it has not counted yet
+  const handleEstimateScores = async () => {
+    if (isThinking) return;
+    const estimator = scoreEstimators[scoreEstimatorType];
+    const control = startAiRequest();
+    setIsEstimatingScores(true);
+    try {
+      for (let i = 0; i < currentLine.length; i++) {
+        const node = currentLine[i];
+        if (scoreEstimates[node.id] !== undefined) continue;
+        const path = currentLine.slice(0, i + 1);
+        const lead = await withTimeout(control, signal => estimator.estimate(path, gameSetup.komi, signal));
+        setScoreEstimates(prev => ({ ...prev, [node.id]: lead }));
+      }
+    } catch (e) {
+      if (!isAbortError(e)) handleAiError(e);
+    } finally {
+      setIsEstimatingScores(false);
+      finishAiRequest(control);
+    }
   };
 
   const handleAnalyze = async () => {
     if (isThinking) return;
-    setIsThinking(true);
+    const control = startAiRequest();
     setErrorMsg(null);
     addChatMessage('system', 'Analyzing position...');
     try {
-        const { result: points, payload } = await getBoardAnalysis(board, currentTurn, ollamaModel, ollamaBaseUrl);
+        const { result: points, payload } = await getBoardAnalysis(board, currentTurn, gameSetup, backendFor(AiTask.ANALYSIS), control);
         setLastDebugLog(payload);
         setAnalysisData(points);
+        const analyzedNode = currentNodeId;
         setShowAnalysis(true);
         if (points.length > 0) {
             const summary = points.map(p => `${getCoordString(p.x, p.y)} (${p.weight}%)`).join(', ');
             addChatMessage('assistant', `Analysis complete. Top moves: ${summary}`);
+            addNodeComment(analyzedNode, `Analysis: ${summary}`);
         } else {
             addChatMessage('assistant', 'Analysis returned no specific hotspots.');
         }
     } catch (e) {
-        handleAiError(e);
+        if (!isAbortError(e)) handleAiError(e);
     } finally {
-        setIsThinking(false);
+        finishAiRequest(control);
     }
   };
 
   const handleAskBestMove = async () => {
     if (isThinking) return;
-    setIsThinking(true);
+    const control = startAiRequest();
     setErrorMsg(null);
     try {
-        const { result: move, payload } = await getBestMove(board, currentTurn, ollamaModel, ollamaBaseUrl);
+        const { result: move, payload } = await getBestMove(board, currentTurn, gameSetup, backendFor(AiTask.MOVE), [], moveConstraint, getMoveCandidates(), control);
         setLastDebugLog(payload);
         if (move) {
             const coord = getCoordString(move.x, move.y);
             const msg = `Recommended: ${coord} - ${move.explanation}`;
             setAiSuggestion(msg);
             addChatMessage('assistant', msg);
+            addNodeComment(currentNodeId, msg);
             // Highlight the move temporarily
             setAnalysisData([{ x: move.x, y: move.y, weight: 100, reasoning: move.explanation || "Best Move" }]);
             setShowAnalysis(true);
         }
     } catch (e) {
-        handleAiError(e);
+        if (!isAbortError(e)) handleAiError(e);
     } finally {
-        setIsThinking(false);
+        finishAiRequest(control);
     }
   };
 
@@ -346,7 +1215,11 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="min-h-screen bg-stone-100 flex flex-col items-center py-8 font-sans">
+    <div 
+        className="min-h-screen bg-stone-100 flex flex-col items-center py-8 font-sans"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+    >
       
       {/* Header */}
       <header className="mb-6 text-center relative z-10">
@@ -355,8 +1228,23 @@ const App: React.FC = () => {
           Zen Go <span className="text-stone-400 font-light text-2xl">| Local AI</span>
         </h1>
         <p className="text-stone-500 text-sm max-w-md mx-auto">
-          Play against local LLMs via Ollama.
+          Play against local LLMs via Ollama or an OpenAI-compatible server.
         </p>
+        <div className="mt-3 inline-flex rounded-lg border border-stone-300 bg-white p-0.5 text-sm">
+          <button
+            onClick={() => setShowTsumego(false)}
+            className={`px-3 py-1 rounded-md ${!showTsumego ? 'bg-stone-800 text-white' : 'text-stone-600 hover:bg-stone-100'}`}
+          >
+            Play
+          </button>
+          <button
+            onClick={() => setShowTsumego(true)}
+            className={`px-3 py-1 rounded-md ${showTsumego ? 'bg-stone-800 text-white' : 'text-stone-600 hover:bg-stone-100'}`}
+            title="Solve life-and-death problems from an SGF collection"
+          >
+            Problems
+          </button>
+        </div>
       </header>
 
       {/* Main Content Layout */}
@@ -366,27 +1254,31 @@ const App: React.FC = () => {
         <div className="w-full lg:w-64 flex flex-col gap-4 order-2 lg:order-1">
             
             {/* Player Cards */}
-            <div className={`p-4 rounded-xl border-2 transition-all duration-300 ${currentTurn === StoneColor.BLACK ? 'bg-white border-stone-800 shadow-lg scale-105' : 'bg-stone-50 border-transparent opacity-70'}`}>
-                <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                         <div className="w-4 h-4 rounded-full bg-black shadow-sm ring-1 ring-stone-300"></div>
-                         <span className="font-bold text-stone-800">Black</span>
+            {!showTsumego && (
+              <>
+                <div className={`p-4 rounded-xl border-2 transition-all duration-300 ${currentTurn === StoneColor.BLACK ? 'bg-white border-stone-800 shadow-lg scale-105' : 'bg-stone-50 border-transparent opacity-70'}`}>
+                    <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center gap-2">
+                             <div className="w-4 h-4 rounded-full bg-black shadow-sm ring-1 ring-stone-300"></div>
+                             <span className="font-bold text-stone-800">Black</span>
+                        </div>
+                        <span className="text-xs bg-stone-200 px-2 py-1 rounded">Captures: {captures.black}</span>
                     </div>
-                    <span className="text-xs bg-stone-200 px-2 py-1 rounded">Captures: {captures.black}</span>
+                    {currentTurn === StoneColor.BLACK && isThinking && <div className="text-xs text-emerald-600 animate-pulse">Thinking...</div>}
                 </div>
-                {currentTurn === StoneColor.BLACK && isThinking && <div className="text-xs text-emerald-600 animate-pulse">Thinking...</div>}
-            </div>
 
-            <div className={`p-4 rounded-xl border-2 transition-all duration-300 ${currentTurn === StoneColor.WHITE ? 'bg-white border-stone-800 shadow-lg scale-105' : 'bg-stone-50 border-transparent opacity-70'}`}>
-                <div className="flex items-center justify-between mb-2">
-                    <div className="flex items-center gap-2">
-                         <div className="w-4 h-4 rounded-full bg-white shadow-sm ring-1 ring-stone-300"></div>
-                         <span className="font-bold text-stone-800">White</span>
+                <div className={`p-4 rounded-xl border-2 transition-all duration-300 ${currentTurn === StoneColor.WHITE ? 'bg-white border-stone-800 shadow-lg scale-105' : 'bg-stone-50 border-transparent opacity-70'}`}>
+                    <div className="flex items-center justify-between mb-2">
+                        <div className="flex items-center gap-2">
+                             <div className="w-4 h-4 rounded-full bg-white shadow-sm ring-1 ring-stone-300"></div>
+                             <span className="font-bold text-stone-800">White</span>
+                        </div>
+                         <span className="text-xs bg-stone-200 px-2 py-1 rounded">Captures: {captures.white}</span>
                     </div>
-                     <span className="text-xs bg-stone-200 px-2 py-1 rounded">Captures: {captures.white}</span>
+                     {currentTurn === StoneColor.WHITE && isThinking && <div className="text-xs text-emerald-600 animate-pulse">Thinking...</div>}
                 </div>
-                 {currentTurn === StoneColor.WHITE && isThinking && <div className="text-xs text-emerald-600 animate-pulse">Thinking...</div>}
-            </div>
+              </>
+            )}
 
             {/* AI Controls */}
             <div className="bg-white p-4 rounded-xl shadow-sm border border-stone-200 mt-2">
@@ -402,9 +1294,22 @@ const App: React.FC = () => {
                 
                 {showSettings && (
                     <div className="mb-4 p-3 bg-stone-50 rounded border border-stone-200 space-y-3">
+                         <div>
+                            <label className="text-xs font-bold text-stone-600 block mb-1">Provider</label>
+                            <select 
+                                value={aiProvider}
+                                onChange={(e) => handleProviderChange(e.target.value as AiProviderType)}
+                                className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white"
+                            >
+                                {Object.values(AiProviderType).map(provider => (
+                                    <option key={provider} value={provider}>{AI_PROVIDERS[provider].label}</option>
+                                ))}
+                            </select>
+                        </div>
+
                          <div>
                             <div className="flex justify-between items-center mb-1">
-                                <label className="text-xs font-bold text-stone-600">Ollama Base URL</label>
+                                <label className="text-xs font-bold text-stone-600">Server URL</label>
                                 <button onClick={() => setShowHelpModal(true)} className="text-xs text-emerald-600 hover:underline flex items-center gap-1">
                                     <HelpCircle size={10} /> Help
                                 </button>
@@ -412,8 +1317,8 @@ const App: React.FC = () => {
                             <div className="flex gap-1">
                                 <input 
                                     type="text" 
-                                    value={ollamaBaseUrl}
-                                    onChange={(e) => setOllamaBaseUrl(e.target.value)}
+                                    value={aiBaseUrl}
+                                    onChange={(e) => setAiBaseUrl(e.target.value)}
                                     className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
                                 />
                                 <button 
@@ -431,8 +1336,8 @@ const App: React.FC = () => {
                             <label className="text-xs font-bold text-stone-600 block mb-1">Model</label>
                             {availableModels.length > 0 ? (
                                 <select 
-                                    value={ollamaModel}
-                                    onChange={(e) => setOllamaModel(e.target.value)}
+                                    value={aiModel}
+                                    onChange={(e) => handleModelChange(e.target.value)}
                                     className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white"
                                 >
                                     {availableModels.map(model => (
@@ -442,13 +1347,158 @@ const App: React.FC = () => {
                             ) : (
                                 <input 
                                     type="text" 
-                                    value={ollamaModel}
-                                    onChange={(e) => setOllamaModel(e.target.value)}
+                                    value={aiModel}
+                                    onChange={(e) => handleModelChange(e.target.value)}
                                     placeholder="e.g. llama3"
                                     className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
                                 />
                             )}
                         </div>
+
+                        <TaskSettingsPanel 
+                            settings={taskSettings}
+                            availableModels={availableModels}
+                            defaultModel={aiModel}
+                            onChange={handleTaskSettingsChange}
+                        />
+
+                        <div>
+                            <label className="text-xs font-bold text-stone-600 block mb-1">Move Engine</label>
+                            <select 
+                                value={moveEngine}
+                                onChange={(e) => handleMoveEngineChange(e.target.value as MoveEngineType)}
+                                className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white"
+                            >
+                                <option value={MoveEngineType.LLM}>Language model</option>
+                                <option value={MoveEngineType.GTP}>GTP engine (via bridge)</option>
+                                <option value={MoveEngineType.MCTS}>Offline bot (MCTS)</option>
+                            </select>
+                            {moveEngine === MoveEngineType.LLM && (
+                                <select 
+                                    value={moveConstraint}
+                                    onChange={(e) => setMoveConstraint(e.target.value as MoveConstraint)}
+                                    title="Give the model the legal moves to choose from"
+                                    className="w-full mt-1 text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white"
+                                >
+                                    <option value={MoveConstraint.NONE}>Any point on the board</option>
+                                    <option value={MoveConstraint.LIST}>Pick from numbered legal moves</option>
+                                    <option value={MoveConstraint.ENUM}>Pick from legal moves (JSON schema)</option>
+                                </select>
+                            )}
+                            {moveEngine === MoveEngineType.GTP && (
+                                <input 
+                                    type="text" 
+                                    value={gtpBridgeUrl}
+                                    onChange={(e) => { setGtpBridgeUrl(e.target.value); gtpEngineRef.current = null; }}
+                                    placeholder={DEFAULT_GTP_BRIDGE_URL}
+                                    title="Start the bridge with: npm run gtp-bridge -- <engine command>"
+                                    className="w-full mt-1 text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
+                                />
+                            )}
+                            {moveEngine !== MoveEngineType.LLM && (
+                                <label className="flex items-center gap-2 mt-2 text-xs text-stone-600 cursor-pointer">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={explainEngineMoves}
+                                        onChange={(e) => setExplainEngineMoves(e.target.checked)}
+                                        className="accent-emerald-600"
+                                    />
+                                    Explain engine moves with the model
+                                </label>
+                            )}
+                            {moveEngine !== MoveEngineType.MCTS && (
+                                <label className="flex items-center gap-2 mt-2 text-xs text-stone-600 cursor-pointer">
+                                    <input 
+                                        type="checkbox" 
+                                        checked={offlineFallback}
+                                        onChange={(e) => setOfflineFallback(e.target.checked)}
+                                        className="accent-emerald-600"
+                                    />
+                                    Offline bot moves if this fails
+                                </label>
+                            )}
+                            {(moveEngine === MoveEngineType.MCTS || offlineFallback) && (
+                                <div className="grid grid-cols-2 gap-1 mt-2">
+                                    <label className="text-[10px] text-stone-500">
+                                        Playouts
+                                        <input 
+                                            type="number" 
+                                            min={100}
+                                            step={100}
+                                            value={mctsPlayouts}
+                                            onChange={(e) => setMctsPlayouts(Math.max(1, Number(e.target.value)))}
+                                            className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
+                                        />
+                                    </label>
+                                    <label className="text-[10px] text-stone-500">
+                                        Time (s)
+                                        <input 
+                                            type="number" 
+                                            min={0.5}
+                                            step={0.5}
+                                            value={mctsTimeLimitMs / 1000}
+                                            onChange={(e) => setMctsTimeLimitMs(Math.max(100, Number(e.target.value) * 1000))}
+                                            className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
+                                        />
+                                    </label>
+                                </div>
+                            )}
+                        </div>
+
+                        <div>
+                            <label className="text-xs font-bold text-stone-600 block mb-1">AI Time Limit</label>
+                            <div className="grid grid-cols-2 gap-1">
+                                <label className="text-[10px] text-stone-500">
+                                    Seconds
+                                    <input 
+                                        type="number" 
+                                        min={1}
+                                        step={5}
+                                        value={aiTimeoutMs / 1000}
+                                        onChange={(e) => setAiTimeoutMs(Math.max(1000, Number(e.target.value) * 1000))}
+                                        className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
+                                    />
+                                </label>
+                                <label className="text-[10px] text-stone-500">
+                                    On timeout
+                                    <select 
+                                        value={timeoutAction}
+                                        onChange={(e) => setTimeoutAction(e.target.value as TimeoutAction)}
+                                        title="What the AI does when its move takes too long"
+                                        className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white"
+                                    >
+                                        <option value={TimeoutAction.PASS}>Pass</option>
+                                        <option value={TimeoutAction.RETRY}>Ask again</option>
+                                        <option value={TimeoutAction.OFFLINE}>Offline bot moves</option>
+                                    </select>
+                                </label>
+                            </div>
+                        </div>
+
+                        <div>
+                            <label className="text-xs font-bold text-stone-600 block mb-1">Ko Rule</label>
+                            <select 
+                                value={koRule}
+                                onChange={(e) => setKoRule(e.target.value as KoRule)}
+                                className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white"
+                            >
+                                <option value={KoRule.SIMPLE}>Simple ko</option>
+                                <option value={KoRule.POSITIONAL}>Positional superko</option>
+                                <option value={KoRule.SITUATIONAL}>Situational superko</option>
+                            </select>
+                        </div>
+
+                        <div>
+                            <label className="text-xs font-bold text-stone-600 block mb-1">Scoring</label>
+                            <select 
+                                value={scoringRule}
+                                onChange={(e) => setScoringRule(e.target.value as ScoringRule)}
+                                className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white"
+                            >
+                                <option value={ScoringRule.AREA}>Area (Chinese)</option>
+                                <option value={ScoringRule.TERRITORY}>Territory (Japanese)</option>
+                            </select>
+                        </div>
                     </div>
                 )}
 
@@ -477,6 +1527,18 @@ const App: React.FC = () => {
                 </div>
             </div>
 
+            {/* Variation Tree */}
+            {!showTsumego && (
+                <GameTreePanel 
+                    tree={gameTree}
+                    currentNodeId={currentNodeId}
+                    onSelectNode={browseTo}
+                    onDeleteBranch={handleDeleteBranch}
+                    onPromoteBranch={handlePromoteBranch}
+                    disabled={isThinking || gamePhase === 'handicap'}
+                />
+            )}
+
             {/* Error Message Display */}
             {errorMsg && (
                 <div 
@@ -496,68 +1558,255 @@ const App: React.FC = () => {
         </div>
 
         {/* Center: Board */}
-        <div className="flex-1 flex justify-center order-1 lg:order-2">
-             <Board 
-                grid={board} 
-                size={BOARD_SIZE} 
-                lastMove={lastMove}
-                analysisData={analysisData}
-                showAnalysis={showAnalysis}
-                onIntersectionClick={handleIntersectionClick}
-                disabled={currentTurn === aiPlaying || isThinking}
-             />
+        <div className="flex-1 flex flex-col items-center gap-3 order-1 lg:order-2">
+             <div className={showTsumego ? "contents" : "hidden"}>
+                <TsumegoTrainer 
+                    stats={tsumegoStats}
+                    onResult={handleTsumegoResult}
+                    onExplain={handleExplainTsumego}
+                    isExplaining={isThinking}
+                    koRule={koRule}
+                />
+             </div>
+             {!showTsumego && (
+               <>
+                 <Board 
+                    grid={board} 
+                    size={board.length} 
+                    lastMove={lastMove}
+                    analysisData={analysisData}
+                    showAnalysis={showAnalysis}
+                    onIntersectionClick={handleIntersectionClick}
+                    disabled={gamePhase === 'scoring' ? isThinking : (gamePhase === 'finished' || currentTurn === aiPlaying || isThinking)}
+                    deadStones={deadStones}
+                    territoryMap={displayedScore && !isBrowsing ? displayedScore.territoryMap : null}
+                    ownershipMap={displayedScore && !isBrowsing ? null : ownershipMap}
+                    groupStatuses={displayedScore && !isBrowsing ? null : groupStatuses}
+                 />
+                 <MoveNavigator 
+                    moveNumber={history.length}
+                    totalMoves={currentLine.length - 1}
+                    onSeek={handleSeek}
+                    isBrowsing={isBrowsing}
+                    onResume={handleResumeFromHere}
+                    disabled={isThinking || gamePhase === 'handicap'}
+                 />
+                 <ScoreGraph 
+                    leads={currentLine.map(node => scoreEstimates[node.id])}
+                    currentMove={history.length}
+                    estimatorType={scoreEstimatorType}
+                    estimatorLabels={{
+                        [ScoreEstimatorType.INFLUENCE]: scoreEstimators[ScoreEstimatorType.INFLUENCE].label,
+                        [ScoreEstimatorType.GTP]: scoreEstimators[ScoreEstimatorType.GTP].label,
+                    }}
+                    onEstimatorChange={setScoreEstimatorType}
+                    onEstimate={scoreEstimators[scoreEstimatorType].live ? undefined : handleEstimateScores}
+                    onStop={cancelAiRequest}
+                    isEstimating={isEstimatingScores}
+                    disabled={isThinking || gamePhase === 'handicap'}
+                    onSelectMove={handleSeek}
+                 />
+                 {gamePhase === 'handicap' && (
+                    <div className="px-3 py-2 bg-stone-800 text-white rounded-lg text-xs">
+                        Place {handicapStonesLeft} more handicap stone{handicapStonesLeft === 1 ? '' : 's'} for Black.
+                    </div>
+                 )}
+                 {illegalMoveMsg && (
+                    <div className="flex items-center gap-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">
+                        <AlertCircle size={14} className="shrink-0" />
+                        {illegalMoveMsg}
+                    </div>
+                 )}
+               </>
+             )}
         </div>
 
         {/* Right Panel: Actions & Analysis & Chat */}
         <div className="w-full lg:w-80 flex flex-col gap-4 order-3">
             
-            {/* Game Actions */}
-            <div className="grid grid-cols-2 gap-2">
-                <button 
-                    onClick={handleNewGame}
-                    className="flex items-center justify-center gap-2 px-4 py-3 bg-stone-800 text-white rounded-lg hover:bg-stone-700 transition-colors shadow-sm"
-                >
-                    <RotateCcw size={16} /> New Game
-                </button>
-                <button 
-                    onClick={handleUndo}
-                    disabled={history.length === 0 || isThinking}
-                    className="flex items-center justify-center gap-2 px-4 py-3 bg-white text-stone-700 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors shadow-sm disabled:opacity-50"
-                >
-                    <SkipForward size={16} className="rotate-180" /> Undo
-                </button>
-            </div>
+            {!showTsumego && (
+              <>
+                {/* Game Actions */}
+                <div className="grid grid-cols-3 gap-2">
+                    <button 
+                        onClick={() => setShowNewGameDialog(true)}
+                        className="flex items-center justify-center gap-1 px-2 py-3 text-sm bg-stone-800 text-white rounded-lg hover:bg-stone-700 transition-colors shadow-sm"
+                    >
+                        <RotateCcw size={16} /> New Game
+                    </button>
+                    <button 
+                        onClick={handleUndo}
+                        disabled={currentNode.parent === null}
+                        className="flex items-center justify-center gap-1 px-2 py-3 text-sm bg-white text-stone-700 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors shadow-sm disabled:opacity-50"
+                    >
+                        <SkipForward size={16} className="rotate-180" /> Undo
+                    </button>
+                    <button 
+                        onClick={handlePass}
+                        disabled={isThinking || gamePhase !== 'playing' || currentTurn === aiPlaying}
+                        className="flex items-center justify-center gap-1 px-2 py-3 text-sm bg-white text-stone-700 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors shadow-sm disabled:opacity-50"
+                    >
+                        <Hand size={16} /> Pass
+                    </button>
+                </div>
 
-             {/* Action Buttons */}
-             <div className="grid grid-cols-2 gap-2">
-                 <button 
-                    onClick={handleAskBestMove}
-                    disabled={isThinking || (!!aiPlaying && currentTurn === aiPlaying)}
-                    className="flex items-center justify-center gap-2 px-3 py-2 bg-emerald-50 text-emerald-800 rounded-lg border border-emerald-100 hover:bg-emerald-100 transition-colors disabled:opacity-50 text-xs font-medium"
-                >
-                    <Play size={14} /> Ask Best Move
-                </button>
+                 {/* SGF Import / Export */}
+                 <div className="grid grid-cols-3 gap-2">
+                    <button 
+                        onClick={handleExportSgf}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-white text-stone-700 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors text-xs font-medium"
+                    >
+                        <Download size={14} /> Save SGF
+                    </button>
+                    <button 
+                        onClick={() => sgfInputRef.current?.click()}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-white text-stone-700 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors disabled:opacity-50 text-xs font-medium"
+                        title="Open an SGF file (or drop one onto the page)"
+                    >
+                        <Upload size={14} /> Open SGF
+                    </button>
+                    <button 
+                        onClick={handleShowSavedGames}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-white text-stone-700 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors text-xs font-medium"
+                        title="Games are saved automatically; resume or delete them here"
+                    >
+                        <FolderOpen size={14} /> Games
+                    </button>
+                    <input 
+                        ref={sgfInputRef}
+                        type="file"
+                        accept=".sgf"
+                        className="hidden"
+                        onChange={(e) => {
+                            const file = e.target.files?.[0];
+                            if (file) readSgfFile(file);
+                            e.target.value = '';
+                        }}
+                    />
+                 </div>
 
-                <button 
-                    onClick={handleAnalyze}
-                    disabled={isThinking}
-                    className="flex items-center justify-center gap-2 px-3 py-2 bg-indigo-50 text-indigo-800 rounded-lg border border-indigo-100 hover:bg-indigo-100 transition-colors disabled:opacity-50 text-xs font-medium"
-                >
-                    <Info size={14} /> Analyze
-                </button>
-             </div>
+                 {/* Scoring Panel */}
+                 {displayedScore && (
+                    <div className="bg-white p-4 rounded-xl shadow-sm border border-stone-200">
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="text-xs font-semibold uppercase text-stone-400 tracking-wider flex items-center gap-1">
+                                <Flag size={12} /> {gamePhase === 'finished' ? 'Final Score' : 'Scoring'}
+                            </h3>
+                            <span className="text-sm font-bold text-stone-800">{displayedScore.result}</span>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2 text-xs text-stone-600 mb-3">
+                            {([StoneColor.BLACK, StoneColor.WHITE] as const).map(color => {
+                                const side = color === StoneColor.BLACK ? displayedScore.black : displayedScore.white;
+                                return (
+                                    <div key={color} className="bg-stone-50 rounded p-2 border border-stone-100">
+                                        <div className="font-bold text-stone-800 mb-1">{color === StoneColor.BLACK ? 'Black' : 'White'}: {side.total}</div>
+                                        {displayedScore.rule === ScoringRule.AREA ? (
+                                            <div>Stones {side.stones} + Area {side.territory}</div>
+                                        ) : (
+                                            <div>Territory {side.territory} + Prisoners {side.prisoners}</div>
+                                        )}
+                                        {side.komi > 0 && <div>Komi {side.komi}</div>}
+                                        {side.handicap > 0 && <div>Handicap {side.handicap}</div>}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        {gamePhase === 'scoring' && (
+                            <>
+                                <p className="text-[11px] text-stone-500 mb-2">Click a group to toggle it dead or alive.</p>
+                                <div className="grid grid-cols-2 gap-2 mb-2">
+                                    {([StoneColor.BLACK, StoneColor.WHITE] as const).map(color => {
+                                        const accepted = color === StoneColor.BLACK ? scoreConfirmed.black : scoreConfirmed.white;
+                                        const isAi = aiPlaying === color;
+                                        return (
+                                            <button 
+                                                key={color}
+                                                onClick={() => handleConfirmScore(color)}
+                                                disabled={accepted || isAi}
+                                                className="flex items-center justify-center gap-1 px-2 py-2 bg-emerald-50 text-emerald-800 rounded-lg border border-emerald-100 hover:bg-emerald-100 transition-colors disabled:opacity-50 text-xs font-medium"
+                                            >
+                                                {accepted || isAi ? <CheckCircle size={12} /> : null}
+                                                {color === StoneColor.BLACK ? 'Black' : 'White'} {isAi ? '(AI) accepts' : accepted ? 'accepted' : 'accepts'}
+                                            </button>
+                                        );
+                                    })}
+                                </div>
+                                <button 
+                                    onClick={handleResumePlay}
+                                    className="w-full px-3 py-2 bg-white text-stone-700 border border-stone-300 rounded-lg hover:bg-stone-50 transition-colors text-xs font-medium"
+                                >
+                                    Resume Play
+                                </button>
+                            </>
+                        )}
+                    </div>
+                 )}
+
+                 {/* Action Buttons */}
+                 <div className="grid grid-cols-2 gap-2">
+                     <button 
+                        onClick={handleAskBestMove}
+                        disabled={isThinking || (!!aiPlaying && currentTurn === aiPlaying)}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-emerald-50 text-emerald-800 rounded-lg border border-emerald-100 hover:bg-emerald-100 transition-colors disabled:opacity-50 text-xs font-medium"
+                    >
+                        <Play size={14} /> Ask Best Move
+                    </button>
+
+                    <button 
+                        onClick={handleAnalyze}
+                        disabled={isThinking}
+                        className="flex items-center justify-center gap-2 px-3 py-2 bg-indigo-50 text-indigo-800 rounded-lg border border-indigo-100 hover:bg-indigo-100 transition-colors disabled:opacity-50 text-xs font-medium"
+                    >
+                        <Info size={14} /> Analyze
+                    </button>
+                 </div>
              
-             {analysisData.length > 0 && (
-                <div className="flex items-center gap-2 px-2">
+                 {currentLine.length > 1 && (
+                    <GameReviewPanel 
+                        review={review}
+                        boardSize={board.length}
+                        disabled={isThinking}
+                        onStart={handleReviewGame}
+                        onStop={cancelAiRequest}
+                        onJump={handleJumpToReview}
+                    />
+                 )}
+
+                 <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-2">
+                    {analysisData.length > 0 && (
+                        <div className="flex items-center gap-2">
+                            <input 
+                            type="checkbox" 
+                            id="showAnalysis" 
+                            checked={showAnalysis} 
+                            onChange={(e) => setShowAnalysis(e.target.checked)}
+                            className="w-4 h-4 accent-emerald-600"
+                            />
+                            <label htmlFor="showAnalysis" className="text-sm text-stone-600 select-none cursor-pointer">Show Overlay on Board</label>
+                        </div>
+                    )}
+                    <div className="flex items-center gap-2">
                         <input 
                         type="checkbox" 
-                        id="showAnalysis" 
-                        checked={showAnalysis} 
-                        onChange={(e) => setShowAnalysis(e.target.checked)}
+                        id="showOwnership" 
+                        checked={showOwnership} 
+                        onChange={(e) => setShowOwnership(e.target.checked)}
                         className="w-4 h-4 accent-emerald-600"
                         />
-                        <label htmlFor="showAnalysis" className="text-sm text-stone-600 select-none cursor-pointer">Show Overlay on Board</label>
-                </div>
+                        <label htmlFor="showOwnership" className="text-sm text-stone-600 select-none cursor-pointer" title="Shade each point by the side whose stones influence it most">Show Ownership</label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <input 
+                        type="checkbox" 
+                        id="showGroupStatus" 
+                        checked={showGroupStatus} 
+                        onChange={(e) => setShowGroupStatus(e.target.checked)}
+                        className="w-4 h-4 accent-emerald-600"
+                        />
+                        <label htmlFor="showGroupStatus" className="text-sm text-stone-600 select-none cursor-pointer" title="Count liberties on every group and outline groups in atari or without room for eyes">Show Liberties</label>
+                    </div>
+                 </div>
+              </>
             )}
 
             {/* Chat & Logs Window */}
@@ -610,7 +1859,15 @@ const App: React.FC = () => {
                             </div>
                         </div>
                     ))}
-                    {isThinking && (
+                    {streamingReply && (
+                        <div className="flex flex-col items-start">
+                            <div className="max-w-[90%] rounded-lg px-3 py-2 text-sm shadow-sm bg-white border border-stone-200 text-stone-800">
+                                {streamingReply}
+                                <span className="inline-block w-1.5 h-3.5 ml-0.5 bg-stone-400 animate-pulse align-middle" />
+                            </div>
+                        </div>
+                    )}
+                    {isThinking && !streamingReply && (
                         <div className="flex items-start">
                              <div className="bg-white border border-stone-200 rounded-lg px-3 py-2 text-xs text-stone-400 italic animate-pulse">
                                 AI is thinking...
@@ -631,19 +1888,48 @@ const App: React.FC = () => {
                         className="flex-1 text-sm bg-stone-50 border border-stone-200 rounded-md px-3 py-2 outline-none focus:border-emerald-500 focus:bg-white transition-colors"
                         disabled={isThinking}
                     />
-                    <button 
-                        onClick={handleSendMessage}
-                        disabled={!chatInput.trim() || isThinking}
-                        className="bg-emerald-600 text-white p-2 rounded-md hover:bg-emerald-700 disabled:opacity-50 disabled:hover:bg-emerald-600 transition-colors"
-                    >
-                        <Send size={16} />
-                    </button>
+                    {streamingReply !== null ? (
+                        <button 
+                            onClick={cancelAiRequest}
+                            className="bg-red-600 text-white p-2 rounded-md hover:bg-red-700 transition-colors"
+                            title="Stop the answer"
+                        >
+                            <Square size={16} />
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleSendMessage}
+                            disabled={!chatInput.trim() || isThinking}
+                            className="bg-emerald-600 text-white p-2 rounded-md hover:bg-emerald-700 disabled:opacity-50 disabled:hover:bg-emerald-600 transition-colors"
+                        >
+                            <Send size={16} />
+                        </button>
+                    )}
                 </div>
             </div>
 
         </div>
       </div>
 
+      {/* New Game Dialog */}
+      {showNewGameDialog && (
+        <NewGameDialog 
+            initialSetup={gameSetup}
+            onStart={handleNewGame}
+            onCancel={() => setShowNewGameDialog(false)}
+        />
+      )}
+
+      {showSavedGames && (
+        <SavedGamesDialog 
+            games={savedGames}
+            currentGameId={gameId}
+            onResume={handleResumeSavedGame}
+            onDelete={handleDeleteSavedGame}
+            onClose={() => setShowSavedGames(false)}
+        />
+      )}
+
       {/* Troubleshooting Modal */}
       {showHelpModal && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
@@ -657,7 +1943,7 @@ const App: React.FC = () => {
                 
                 <h2 className="text-xl font-bold text-stone-800 mb-4 flex items-center gap-2">
                     <AlertCircle className="text-emerald-600" />
-                    Connecting to Ollama
+                    Connecting to a Local AI Server
                 </h2>
                 
                 <div className="space-y-4 text-sm text-stone-700">
@@ -669,8 +1955,8 @@ const App: React.FC = () => {
                     {window.location.protocol === 'https:' && (
                         <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
                             <p className="font-bold text-red-800 mb-1">HTTPS Warning</p>
-                            <p>You are viewing this page via HTTPS, but trying to access HTTP (Ollama). Browsers block this.</p>
-                            <p className="mt-2"><strong>Solution:</strong> Either run this frontend locally (http://localhost:...) OR use a tool like ngrok to tunnel your Ollama instance to https.</p>
+                            <p>You are viewing this page via HTTPS, but trying to access HTTP (your local server). Browsers block this.</p>
+                            <p className="mt-2"><strong>Solution:</strong> Either run this frontend locally (http://localhost:...) OR use a tool like ngrok to tunnel your local server to https.</p>
                         </div>
                     )}
 
@@ -694,6 +1980,7 @@ const App: React.FC = () => {
                          <ul className="list-disc pl-5 space-y-1 text-stone-600">
                              <li>Use <code>http://127.0.0.1:11434</code> instead of <code>localhost</code>.</li>
                              <li>Ensure your model (e.g., <code>llama3</code>) is pulled: <code>ollama pull llama3</code>.</li>
+                             <li>OpenAI-compatible servers: start llama.cpp with <code>llama-server --port 8080</code>, or enable CORS in LM Studio's server settings. vLLM needs <code>--allowed-origins '["*"]'</code>.</li>
                          </ul>
                     </div>
                 </div>
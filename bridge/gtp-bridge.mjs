@@ -0,0 +1,132 @@
+// Local HTTP bridge between the browser and a GTP engine.
+//
+//   node bridge/gtp-bridge.mjs [--port 8765] [--origin URL] [engine command and arguments]
+//
+// Only pages from the allowed origins may call the bridge: the Vite dev server by default, or
+// the --origin flags (repeatable) or the comma-separated GTP_BRIDGE_ORIGINS variable.
+//
+// Examples:
+//   node bridge/gtp-bridge.mjs gnugo --mode gtp --level 10
+//   npm run gtp-bridge -- katago gtp -model model.bin.gz -config gtp.cfg
+//   node bridge/gtp-bridge.mjs                  (uses the random stub engine)
+//
+// POST /gtp with {"command": "genmove black"} answers {"success": true, "response": "D4"}.
+import { spawn } from 'node:child_process';
+import { createServer } from 'node:http';
+import { fileURLToPath } from 'node:url';
+
+const DEFAULT_ORIGINS = ['http://localhost:3000', 'http://127.0.0.1:3000'];
+
+let args = process.argv.slice(2);
+let port = 8765;
+const origins = [];
+while (args[0] === '--port' || args[0] === '--origin') {
+  if (args[0] === '--port') port = Number(args[1]);
+  else origins.push(args[1]);
+  args = args.slice(2);
+}
+const envOrigins = (process.env.GTP_BRIDGE_ORIGINS || '').split(',').map((o) => o.trim()).filter(Boolean);
+const allowedOrigins = new Set(
+  [...origins, ...envOrigins].length > 0 ? [...origins, ...envOrigins] : DEFAULT_ORIGINS
+);
+if (args[0] === '--') args = args.slice(1);
+const engineCommand = args.length > 0
+  ? args
+  : [process.execPath, fileURLToPath(new URL('./stub-engine.mjs', import.meta.url))];
+
+const engine = spawn(engineCommand[0], engineCommand.slice(1), { stdio: ['pipe', 'pipe', 'inherit'] });
+engine.on('exit', (code) => {
+  console.error(`Engine exited with code ${code}`);
+  process.exit(1);
+});
+
+// GTP answers end with a blank line. Commands are sent one at a time so answers cannot mix.
+let buffer = '';
+let pending = null;
+const queue = [];
+
+engine.stdout.setEncoding('utf8');
+engine.stdout.on('data', (chunk) => {
+  buffer += chunk.replace(/\r/g, '');
+  let end;
+  while (pending && (end = buffer.indexOf('\n\n')) !== -1) {
+    const answer = buffer.slice(0, end);
+    buffer = buffer.slice(end + 2);
+    const resolve = pending;
+    pending = null;
+    resolve(answer);
+    sendNext();
+  }
+});
+
+const sendNext = () => {
+  if (pending || queue.length === 0) return;
+  const { command, resolve } = queue.shift();
+  pending = resolve;
+  engine.stdin.write(command + '\n');
+};
+
+const sendCommand = (command) => new Promise((resolve) => {
+  queue.push({ command, resolve });
+  sendNext();
+});
+
+const server = createServer((req, res) => {
+  // Any page open in the browser can send requests to 127.0.0.1, so refuse other origins.
+  // Requests without an Origin header do not come from a web page (e.g. curl).
+  const origin = req.headers.origin;
+  if (origin !== undefined && !allowedOrigins.has(origin)) {
+    res.writeHead(403);
+    res.end();
+    return;
+  }
+  const corsHeaders = origin === undefined ? {} : {
+    'Access-Control-Allow-Origin': origin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Vary': 'Origin',
+  };
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+  if (req.method !== 'POST' || req.url !== '/gtp') {
+    res.writeHead(404, corsHeaders);
+    res.end();
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', async () => {
+    let command;
+    try {
+      command = String(JSON.parse(body).command || '').trim();
+    } catch (e) {
+      res.writeHead(400, corsHeaders);
+      res.end();
+      return;
+    }
+    // One command per request; a newline would let a request smuggle in a second one
+    if (!command || command.includes('\n')) {
+      res.writeHead(400, corsHeaders);
+      res.end();
+      return;
+    }
+
+    const answer = await sendCommand(command);
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      success: answer.startsWith('='),
+      response: answer.replace(/^[=?]\d*\s*/, ''),
+    }));
+  });
+});
+
+// Only listen on loopback: the bridge runs arbitrary engine commands for whoever can reach it
+server.listen(port, '127.0.0.1', () => {
+  console.log(`GTP bridge for "${engineCommand.join(' ')}" listening on http://127.0.0.1:${port}`);
+  console.log(`Accepting requests from ${[...allowedOrigins].join(', ')}`);
+});
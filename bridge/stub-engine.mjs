@@ -0,0 +1,91 @@
+// Minimal GTP engine that plays random empty points. It does not remove captured stones, so
+// it is only meant for trying out the bridge and the GTP flow without installing an engine.
+import { createInterface } from 'node:readline';
+
+const LETTERS = 'ABCDEFGHJKLMNOPQRSTUVWXYZ';
+let size = 19;
+let komi = 6.5;
+let stones = new Map(); // vertex -> color
+const history = [];     // vertices played, null for passes
+
+const commands = {
+  protocol_version: () => '2',
+  name: () => 'Zen Go stub engine',
+  version: () => '1.0',
+  list_commands: () => Object.keys(commands).join('\n'),
+  known_command: ([name]) => String(name in commands),
+  boardsize: ([value]) => {
+    size = Number(value);
+    if (!(size >= 2 && size <= 25)) throw new Error('unacceptable size');
+    stones = new Map();
+    history.length = 0;
+    return '';
+  },
+  clear_board: () => {
+    stones = new Map();
+    history.length = 0;
+    return '';
+  },
+  komi: ([value]) => {
+    komi = Number(value);
+    return '';
+  },
+  play: ([color, vertex]) => {
+    const point = vertex.toUpperCase();
+    if (point === 'PASS') {
+      history.push(null);
+      return '';
+    }
+    if (stones.has(point)) throw new Error('illegal move');
+    stones.set(point, color.toLowerCase().startsWith('b') ? 'black' : 'white');
+    history.push(point);
+    return '';
+  },
+  genmove: ([color]) => {
+    const empty = [];
+    for (let x = 0; x < size; x++) {
+      for (let y = 1; y <= size; y++) {
+        const point = LETTERS[x] + y;
+        if (!stones.has(point)) empty.push(point);
+      }
+    }
+    // Pass once the board is mostly full so games against the stub end
+    if (empty.length < size * size * 0.3) {
+      history.push(null);
+      return 'pass';
+    }
+    const point = empty[Math.floor(Math.random() * empty.length)];
+    commands.play([color, point]);
+    return point;
+  },
+  undo: () => {
+    if (history.length === 0) throw new Error('cannot undo');
+    const point = history.pop();
+    if (point) stones.delete(point);
+    return '';
+  },
+  final_score: () => '0',
+  quit: () => '',
+};
+
+const lines = createInterface({ input: process.stdin });
+lines.on('line', (line) => {
+  const text = line.replace(/#.*/, '').trim();
+  if (!text) return;
+
+  const parts = text.split(/\s+/);
+  const id = /^\d+$/.test(parts[0]) ? parts.shift() : '';
+  const [name, ...args] = parts;
+  const handler = commands[name];
+
+  if (!handler) {
+    process.stdout.write(`?${id} unknown command\n\n`);
+    return;
+  }
+  try {
+    process.stdout.write(`=${id} ${handler(args)}\n\n`);
+  } catch (e) {
+    process.stdout.write(`?${id} ${e.message}\n\n`);
+  }
+  if (name === 'quit') process.exit(0);
+});
@@ -1,22 +1,24 @@
 import React, { useMemo } from 'react';
-import { StoneColor, Coordinates, AnalysisPoint } from '../types';
+import { StoneColor, Coordinates, AnalysisPoint, Move, GroupStatus } from '../types';
+import { COLUMN_LETTERS, getStarPoints } from '../utils/gameLogic';
 
 interface BoardProps {
   grid: StoneColor[][];
   size: number;
-  lastMove: Coordinates | null;
+  lastMove: Move | null;
   analysisData: AnalysisPoint[];
   showAnalysis: boolean;
   onIntersectionClick: (x: number, y: number) => void;
   disabled?: boolean;
+  // Scoring phase: stones marked dead are faded, territory is shaded by owner
+  deadStones?: Coordinates[];
+  territoryMap?: StoneColor[][] | null;
+  // Which side each point leans toward, from -1 (White) to 1 (Black), drawn as shaded squares
+  ownershipMap?: number[][] | null;
+  // Liberty counts on every group, with groups in atari or in trouble outlined
+  groupStatuses?: GroupStatus[] | null;
 }
 
-const STAR_POINTS_19 = [
-  { x: 3, y: 3 }, { x: 9, y: 3 }, { x: 15, y: 3 },
-  { x: 3, y: 9 }, { x: 9, y: 9 }, { x: 15, y: 9 },
-  { x: 3, y: 15 }, { x: 9, y: 15 }, { x: 15, y: 15 },
-];
-
 export const Board: React.FC<BoardProps> = ({
   grid,
   size,
@@ -24,10 +26,14 @@ export const Board: React.FC<BoardProps> = ({
   analysisData,
   showAnalysis,
   onIntersectionClick,
-  disabled
+  disabled,
+  deadStones = [],
+  territoryMap = null,
+  ownershipMap = null,
+  groupStatuses = null
 }) => {
-  // Constants for rendering
-  const cellSize = 32;
+  // Constants for rendering. Smaller boards get larger cells so all sizes fill a similar area.
+  const cellSize = size <= 9 ? 56 : size <= 13 ? 44 : 32;
   const padding = 30;
   const boardPixelSize = (size - 1) * cellSize + padding * 2;
 
@@ -67,8 +73,7 @@ export const Board: React.FC<BoardProps> = ({
 
   // Render Star Points (Hoshi) - Memoized
   const starPoints = useMemo(() => {
-    if (size !== 19) return null; // Only for 19x19 for now
-    return STAR_POINTS_19.map((p, i) => (
+    return getStarPoints(size).map((p, i) => (
       <circle
         key={`star-${i}`}
         cx={padding + p.x * cellSize}
@@ -82,12 +87,29 @@ export const Board: React.FC<BoardProps> = ({
   // Render Stones - Memoized to prevent recalculation on every prop change if grid hasn't changed
   const stones = useMemo(() => {
     const renderedStones = [];
+    const dead = new Set(deadStones.map(s => `${s.x},${s.y}`));
     for (let y = 0; y < size; y++) {
       for (let x = 0; x < size; x++) {
         const stone = grid[y][x];
         if (stone !== StoneColor.EMPTY) {
           const cx = padding + x * cellSize;
           const cy = padding + y * cellSize;
+
+          // Dead stones are drawn as faded ghosts without shading
+          if (dead.has(`${x},${y}`)) {
+            renderedStones.push(
+              <circle
+                key={`dead-${x}-${y}`}
+                cx={cx}
+                cy={cy}
+                r={cellSize * 0.46}
+                fill={stone === StoneColor.BLACK ? '#111' : '#fcfcfc'}
+                stroke={stone === StoneColor.WHITE ? '#ccc' : 'none'}
+                opacity={0.35}
+              />
+            );
+            continue;
+          }
           
           // Stone shadow
           renderedStones.push(
@@ -139,11 +161,107 @@ export const Board: React.FC<BoardProps> = ({
       }
     }
     return renderedStones;
-  }, [grid, size]);
+  }, [grid, size, deadStones]);
+
+  // Territory markers (scoring phase)
+  const territoryMarkers = useMemo(() => {
+    if (!territoryMap) return null;
+    const markers = [];
+    const markerSize = cellSize * 0.36;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const owner = territoryMap[y]?.[x];
+        if (owner === StoneColor.BLACK || owner === StoneColor.WHITE) {
+          markers.push(
+            <rect
+              key={`territory-${x}-${y}`}
+              x={padding + x * cellSize - markerSize / 2}
+              y={padding + y * cellSize - markerSize / 2}
+              width={markerSize}
+              height={markerSize}
+              fill={owner === StoneColor.BLACK ? '#111' : '#fcfcfc'}
+              stroke={owner === StoneColor.WHITE ? '#999' : 'none'}
+              strokeWidth="0.5"
+              opacity={0.85}
+              pointerEvents="none"
+            />
+          );
+        }
+      }
+    }
+    return markers;
+  }, [territoryMap, size]);
+
+  // Ownership heatmap: a square per point, darker or lighter the more it leans to a side
+  const ownershipSquares = useMemo(() => {
+    if (!ownershipMap) return null;
+    const squares = [];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const owner = ownershipMap[y]?.[x] ?? 0;
+        if (Math.abs(owner) < 0.1) continue;
+        squares.push(
+          <rect
+            key={`ownership-${x}-${y}`}
+            x={padding + x * cellSize - cellSize / 2}
+            y={padding + y * cellSize - cellSize / 2}
+            width={cellSize}
+            height={cellSize}
+            fill={owner > 0 ? '#000' : '#fff'}
+            opacity={Math.abs(owner) * 0.45}
+            pointerEvents="none"
+          />
+        );
+      }
+    }
+    return squares;
+  }, [ownershipMap, size]);
+
+  // Group status: red rings for atari, dashed amber rings for weak groups, liberties on one stone
+  const groupMarkers = useMemo(() => {
+    if (!groupStatuses) return null;
+    return groupStatuses.map(group => {
+      // Keep the count off the last move's marker when the group has another stone for it
+      const labelCandidates = group.stones.filter(stone =>
+        !lastMove || lastMove === 'pass' || stone.x !== lastMove.x || stone.y !== lastMove.y
+      );
+      const label = (labelCandidates.length > 0 ? labelCandidates : group.stones).reduce((first, stone) =>
+        stone.y < first.y || (stone.y === first.y && stone.x < first.x) ? stone : first
+      );
+      const key = `${label.x}-${label.y}`;
+      return (
+        <g key={`group-${key}`} pointerEvents="none">
+          {group.status !== 'stable' && group.stones.map(stone => (
+            <circle
+              key={`group-ring-${stone.x}-${stone.y}`}
+              cx={padding + stone.x * cellSize}
+              cy={padding + stone.y * cellSize}
+              r={cellSize * 0.5}
+              fill="none"
+              stroke={group.status === 'atari' ? '#dc2626' : '#f59e0b'}
+              strokeWidth={group.status === 'atari' ? 3 : 2}
+              strokeDasharray={group.status === 'weak' ? '4 3' : undefined}
+            />
+          ))}
+          <text
+            x={padding + label.x * cellSize}
+            y={padding + label.y * cellSize}
+            dy=".35em"
+            textAnchor="middle"
+            fontSize={cellSize * 0.36}
+            fontWeight="bold"
+            fill={group.status === 'atari' ? '#dc2626' : group.color === StoneColor.BLACK ? '#fff' : '#111'}
+          >
+            {group.liberties}
+          </text>
+        </g>
+      );
+    });
+  }, [groupStatuses, size, lastMove]);
 
   // Last Move Marker
   const lastMoveMarker = useMemo(() => {
-    if (!lastMove) return null;
+    if (!lastMove || lastMove === 'pass') return null;
     const cx = padding + lastMove.x * cellSize;
     const cy = padding + lastMove.y * cellSize;
     const stoneColor = grid[lastMove.y][lastMove.x];
@@ -245,7 +363,10 @@ export const Board: React.FC<BoardProps> = ({
       <svg width={boardPixelSize} height={boardPixelSize} className="relative z-10 block">
         {lines}
         {starPoints}
+        {ownershipSquares}
         {stones}
+        {territoryMarkers}
+        {groupMarkers}
         {lastMoveMarker}
         {analysisMarkers}
         {clickTargets}
@@ -253,11 +374,10 @@ export const Board: React.FC<BoardProps> = ({
       
       {/* Coordinates labels - Top */}
       <div className="absolute top-0 left-0 w-full h-[30px] flex items-end pointer-events-none">
-          {Array.from({length: 19}).map((_, i) => {
-               const letters = "ABCDEFGHJKLMNOPQRST";
+          {Array.from({length: size}).map((_, i) => {
                return (
-                   <div key={i} className="flex-1 text-center text-[10px] font-bold opacity-60 text-[#302010]" style={{width: 32, flex: 'none', marginLeft: i === 0 ? 14 : 0}}>
-                       {letters[i]}
+                   <div key={i} className="flex-1 text-center text-[10px] font-bold opacity-60 text-[#302010]" style={{width: cellSize, flex: 'none', marginLeft: i === 0 ? padding - cellSize / 2 : 0}}>
+                       {COLUMN_LETTERS[i]}
                    </div>
                )
           })}
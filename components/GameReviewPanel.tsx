@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { AnalysisSource, GameReview, MoveReview, StoneColor } from '../types';
+import { toGoCoordinate } from '../utils/gameLogic';
+import { biggestMistakes, evaluatedReviews } from '../utils/gameReview';
+import { ClipboardList, Square, ChevronDown, ChevronRight } from 'lucide-react';
+
+interface GameReviewPanelProps {
+  review: GameReview | null;
+  boardSize: number;
+  disabled: boolean; // No moves to review, or the AI is busy
+  onStart: (source: AnalysisSource) => void;
+  onStop: () => void;
+  onJump: (review: MoveReview) => void;
+}
+
+const moveLabel = (review: MoveReview, size: number): string => {
+  const color = review.color === StoneColor.BLACK ? 'B' : 'W';
+  const point = review.move === 'pass' ? 'pass' : toGoCoordinate(review.move.x, review.move.y, size);
+  return `${review.moveNumber}. ${color} ${point}`;
+};
+
+export const GameReviewPanel: React.FC<GameReviewPanelProps> = ({
+  review,
+  boardSize,
+  disabled,
+  onStart,
+  onStop,
+  onJump
+}) => {
+  const [source, setSource] = useState<AnalysisSource>(AnalysisSource.LLM);
+  const [showAllMoves, setShowAllMoves] = useState(false);
+  const running = review?.status === 'running';
+  const mistakes = review ? biggestMistakes(review.reviews) : [];
+  const evaluated = review ? evaluatedReviews(review.reviews).length : 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-stone-200 p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <ClipboardList size={16} className="text-stone-400" />
+        <span className="text-xs font-bold text-stone-600 uppercase tracking-wide flex-1">Game Review</span>
+        <select
+          value={source}
+          onChange={(e) => setSource(e.target.value as AnalysisSource)}
+          disabled={running}
+          title="What judges each position"
+          className="text-xs p-1 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white disabled:opacity-50"
+        >
+          <option value={AnalysisSource.LLM}>Language model</option>
+          <option value={AnalysisSource.MCTS}>Offline bot</option>
+        </select>
+        {running ? (
+          <button
+            onClick={onStop}
+            className="flex items-center gap-1 px-2 py-1 text-xs bg-stone-200 text-stone-700 rounded hover:bg-stone-300"
+          >
+            <Square size={12} /> Stop
+          </button>
+        ) : (
+          <button
+            onClick={() => onStart(source)}
+            disabled={disabled}
+            className="px-2 py-1 text-xs bg-stone-800 text-white rounded hover:bg-stone-700 disabled:opacity-50"
+          >
+            Review Game
+          </button>
+        )}
+      </div>
+
+      {review && (
+        <>
+          <div className="text-[11px] text-stone-500">
+            {running ? 'Reviewing' : review.status === 'stopped' ? 'Stopped after' : 'Reviewed'} {evaluated} of {review.total} moves
+            {review.skipped > 0 && `, ${review.skipped} could not be analyzed`}
+          </div>
+
+          {mistakes.length > 0 ? (
+            <ul className="space-y-1">
+              {mistakes.map(mistake => {
+                const best = mistake.candidates[0];
+                return (
+                  <li key={mistake.nodeId}>
+                    <button
+                      onClick={() => onJump(mistake)}
+                      disabled={running}
+                      className="w-full text-left px-2 py-1 rounded bg-red-50 hover:bg-red-100 disabled:hover:bg-red-50"
+                      title="Show the position before this move with the better candidates"
+                    >
+                      <div className="text-xs font-medium text-red-800">
+                        {moveLabel(mistake, boardSize)} <span className="font-normal">(-{Math.round(mistake.loss)})</span>
+                        {' '}→ better {toGoCoordinate(best.x, best.y, boardSize)} ({Math.round(best.weight)}%)
+                      </div>
+                      {best.reasoning && <div className="text-[10px] text-red-700 leading-tight">{best.reasoning}</div>}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : !running && (
+            <div className="text-xs text-stone-500">No big mistakes found.</div>
+          )}
+
+          {review.reviews.length > 0 && (
+            <div>
+              <button
+                onClick={() => setShowAllMoves(!showAllMoves)}
+                className="flex items-center gap-1 text-[11px] text-stone-500 hover:text-stone-700"
+              >
+                {showAllMoves ? <ChevronDown size={12} /> : <ChevronRight size={12} />} All moves
+              </button>
+              {showAllMoves && (
+                <div className="max-h-48 overflow-y-auto mt-1 border border-stone-100 rounded">
+                  {review.reviews.map(item => (
+                    <button
+                      key={item.nodeId}
+                      onClick={() => onJump(item)}
+                      disabled={running}
+                      className={`w-full flex justify-between px-2 py-0.5 text-[11px] hover:bg-stone-50 ${item.isMistake ? 'text-red-700 font-medium' : 'text-stone-600'}`}
+                    >
+                      <span>{moveLabel(item, boardSize)}</span>
+                      <span>
+                        {item.candidates.length > 0
+                          ? `best ${toGoCoordinate(item.candidates[0].x, item.candidates[0].y, boardSize)}, -${Math.round(item.loss)}`
+                          : 'no analysis'}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useMemo } from 'react';
+import { StoneColor, GameTree } from '../types';
+import { isOnMainLine } from '../utils/gameTree';
+import { GitBranch, Trash2, ArrowUpToLine } from 'lucide-react';
+
+interface GameTreePanelProps {
+  tree: GameTree;
+  currentNodeId: number;
+  onSelectNode: (nodeId: number) => void;
+  onDeleteBranch: (nodeId: number) => void;
+  onPromoteBranch: (nodeId: number) => void;
+  disabled?: boolean;
+}
+
+interface PlacedNode {
+  id: number;
+  column: number; // Move number
+  lane: number;   // Variation row
+  parentColumn: number;
+  parentLane: number;
+}
+
+// Lay the tree out on a grid: each node sits in the column of its move number, the main line
+// in lane 0 and every variation in the first lane that is free at its depth.
+const layoutTree = (tree: GameTree): PlacedNode[] => {
+  const placed: PlacedNode[] = [];
+  const nextFreeLane: number[] = [];
+  const stack = [{ id: tree.rootId, column: 0, minLane: 0, parentColumn: 0, parentLane: 0 }];
+
+  while (stack.length > 0) {
+    const { id, column, minLane, parentColumn, parentLane } = stack.pop()!;
+    const lane = Math.max(minLane, nextFreeLane[column] ?? 0);
+    nextFreeLane[column] = lane + 1;
+    placed.push({ id, column, lane, parentColumn, parentLane });
+
+    // Push in reverse so the main line is laid out before its variations
+    const children = tree.nodes[id].children;
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ id: children[i], column: column + 1, minLane: lane, parentColumn: column, parentLane: lane });
+    }
+  }
+  return placed;
+};
+
+export const GameTreePanel: React.FC<GameTreePanelProps> = ({
+  tree,
+  currentNodeId,
+  onSelectNode,
+  onDeleteBranch,
+  onPromoteBranch,
+  disabled
+}) => {
+  const spacing = 20;
+  const radius = 6;
+  const placed = useMemo(() => layoutTree(tree), [tree]);
+  const width = (Math.max(...placed.map(p => p.column)) + 1) * spacing;
+  const height = (Math.max(...placed.map(p => p.lane)) + 1) * spacing;
+
+  const current = tree.nodes[currentNodeId];
+  const isRoot = current.parent === null;
+  const onMainLine = useMemo(() => isOnMainLine(tree, currentNodeId), [tree, currentNodeId]);
+
+  return (
+    <div className="bg-white p-4 rounded-xl shadow-sm border border-stone-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xs font-semibold uppercase text-stone-400 tracking-wider flex items-center gap-1">
+          <GitBranch size={12} /> Game Tree
+        </h3>
+        <div className="flex gap-1">
+          <button
+            onClick={() => onPromoteBranch(currentNodeId)}
+            disabled={disabled || onMainLine}
+            className="p-1 rounded text-stone-400 hover:text-stone-700 hover:bg-stone-100 disabled:opacity-30"
+            title="Make this variation the main line"
+          >
+            <ArrowUpToLine size={14} />
+          </button>
+          <button
+            onClick={() => onDeleteBranch(currentNodeId)}
+            disabled={disabled || isRoot}
+            className="p-1 rounded text-stone-400 hover:text-red-600 hover:bg-red-50 disabled:opacity-30"
+            title="Delete this move and everything after it"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-auto max-h-48 bg-stone-50 rounded border border-stone-100 p-1">
+        <svg width={width} height={height} className="block">
+          {placed.filter(p => p.id !== tree.rootId).map(p => (
+            <line
+              key={`edge-${p.id}`}
+              x1={p.parentColumn * spacing + spacing / 2}
+              y1={p.parentLane * spacing + spacing / 2}
+              x2={p.column * spacing + spacing / 2}
+              y2={p.lane * spacing + spacing / 2}
+              stroke="#a8a29e"
+              strokeWidth="1.5"
+            />
+          ))}
+          {placed.map(p => {
+            const node = tree.nodes[p.id];
+            const cx = p.column * spacing + spacing / 2;
+            const cy = p.lane * spacing + spacing / 2;
+            const isCurrent = p.id === currentNodeId;
+            const fill = node.color === StoneColor.BLACK ? '#111' : node.color === StoneColor.WHITE ? '#fcfcfc' : '#d6d3d1';
+            return (
+              <g
+                key={`node-${p.id}`}
+                onClick={() => !disabled && onSelectNode(p.id)}
+                cursor={disabled ? 'default' : 'pointer'}
+              >
+                <title>{node.move === null ? 'Start' : `Move ${p.column}${node.move === 'pass' ? ' (pass)' : ''}`}</title>
+                {isCurrent && <circle cx={cx} cy={cy} r={radius + 3} fill="none" stroke="#059669" strokeWidth="2" />}
+                <circle cx={cx} cy={cy} r={radius} fill={fill} stroke="#78716c" strokeWidth="1" />
+                {node.move === 'pass' && (
+                  <text x={cx} y={cy} dy=".35em" textAnchor="middle" fontSize="7" fill={node.color === StoneColor.BLACK ? '#fff' : '#111'} pointerEvents="none">P</text>
+                )}
+                {node.comment && <circle cx={cx + radius} cy={cy - radius} r={2} fill="#2563eb" pointerEvents="none" />}
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {current.comment && (
+        <p className="mt-2 text-[11px] text-stone-600 whitespace-pre-wrap max-h-24 overflow-y-auto">{current.comment}</p>
+      )}
+    </div>
+  );
+};
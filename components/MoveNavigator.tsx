@@ -0,0 +1,65 @@
+import React from 'react';
+import { ChevronsLeft, ChevronLeft, ChevronRight, ChevronsRight, Play } from 'lucide-react';
+
+interface MoveNavigatorProps {
+  moveNumber: number;  // Moves played to reach the shown position
+  totalMoves: number;  // Length of the line through the shown position
+  onSeek: (moveNumber: number) => void;
+  isBrowsing: boolean;
+  onResume: () => void;
+  disabled?: boolean;
+}
+
+export const MoveNavigator: React.FC<MoveNavigatorProps> = ({
+  moveNumber,
+  totalMoves,
+  onSeek,
+  isBrowsing,
+  onResume,
+  disabled
+}) => {
+  const buttonClass = "p-1.5 rounded-md text-stone-600 hover:bg-stone-200 disabled:opacity-30 disabled:hover:bg-transparent transition-colors";
+  const atStart = moveNumber === 0;
+  const atEnd = moveNumber >= totalMoves;
+
+  return (
+    <div className="w-full max-w-xl bg-white rounded-xl shadow-sm border border-stone-200 px-3 py-2 flex items-center gap-2">
+      <button onClick={() => onSeek(0)} disabled={disabled || atStart} className={buttonClass} title="First move (Home)">
+        <ChevronsLeft size={16} />
+      </button>
+      <button onClick={() => onSeek(moveNumber - 1)} disabled={disabled || atStart} className={buttonClass} title="Previous move (←)">
+        <ChevronLeft size={16} />
+      </button>
+
+      <input
+        type="range"
+        min={0}
+        max={totalMoves}
+        value={moveNumber}
+        onChange={(e) => onSeek(Number(e.target.value))}
+        disabled={disabled || totalMoves === 0}
+        className="flex-1 accent-emerald-600"
+      />
+
+      <button onClick={() => onSeek(moveNumber + 1)} disabled={disabled || atEnd} className={buttonClass} title="Next move (→)">
+        <ChevronRight size={16} />
+      </button>
+      <button onClick={() => onSeek(totalMoves)} disabled={disabled || atEnd} className={buttonClass} title="Last move (End)">
+        <ChevronsRight size={16} />
+      </button>
+
+      <span className="text-xs font-mono text-stone-500 w-16 text-center">{moveNumber} / {totalMoves}</span>
+
+      {isBrowsing && (
+        <button
+          onClick={onResume}
+          disabled={disabled}
+          className="flex items-center gap-1 px-2 py-1 bg-emerald-600 text-white rounded-md hover:bg-emerald-700 disabled:opacity-50 text-xs font-medium whitespace-nowrap"
+          title="Continue the game from this position"
+        >
+          <Play size={12} /> Resume here
+        </button>
+      )}
+    </div>
+  );
+};
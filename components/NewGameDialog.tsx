@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { GameSetup } from '../types';
+import { BOARD_SIZES, MAX_HANDICAP } from '../utils/gameLogic';
+import { DEFAULT_KOMI } from '../utils/scoring';
+import { X, RotateCcw } from 'lucide-react';
+
+interface NewGameDialogProps {
+  initialSetup: GameSetup;
+  onStart: (setup: GameSetup) => void;
+  onCancel: () => void;
+}
+
+export const NewGameDialog: React.FC<NewGameDialogProps> = ({
+  initialSetup,
+  onStart,
+  onCancel
+}) => {
+  const [setup, setSetup] = useState<GameSetup>(initialSetup);
+
+  // Handicap games conventionally use half a point of komi to avoid draws
+  const handleHandicapChange = (handicap: number) => {
+    setSetup(prev => ({ ...prev, handicap, komi: handicap >= 2 ? 0.5 : DEFAULT_KOMI }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-sm w-full p-6 relative">
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 text-stone-400 hover:text-stone-600"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-stone-800 mb-4 flex items-center gap-2">
+          <RotateCcw className="text-emerald-600" />
+          New Game
+        </h2>
+
+        <div className="space-y-4 text-sm text-stone-700">
+          <div>
+            <label className="text-xs font-bold text-stone-600 block mb-2">Board Size</label>
+            <div className="grid grid-cols-3 gap-2">
+              {BOARD_SIZES.map(size => (
+                <button
+                  key={size}
+                  onClick={() => setSetup(prev => ({ ...prev, boardSize: size }))}
+                  className={`text-sm px-3 py-2 rounded-md border ${setup.boardSize === size ? 'bg-emerald-50 border-emerald-500 text-emerald-700 font-bold' : 'hover:bg-stone-50'}`}
+                >
+                  {size}×{size}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs font-bold text-stone-600 block mb-2">Handicap</label>
+            <div className="flex gap-2">
+              <select
+                value={setup.handicap}
+                onChange={(e) => handleHandicapChange(Number(e.target.value))}
+                className="flex-1 text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white"
+              >
+                <option value={0}>None (even game)</option>
+                {Array.from({ length: MAX_HANDICAP - 1 }, (_, i) => i + 2).map(n => (
+                  <option key={n} value={n}>{n} stones</option>
+                ))}
+              </select>
+              <select
+                value={setup.handicapPlacement}
+                onChange={(e) => setSetup(prev => ({ ...prev, handicapPlacement: e.target.value as GameSetup['handicapPlacement'] }))}
+                disabled={setup.handicap < 2}
+                className="flex-1 text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white disabled:opacity-50"
+              >
+                <option value="fixed">Fixed (star points)</option>
+                <option value="free">Free placement</option>
+              </select>
+            </div>
+            {setup.handicap >= 2 && (
+              <p className="text-[11px] text-stone-500 mt-1">White moves first after the handicap stones.</p>
+            )}
+          </div>
+
+          <div>
+            <label className="text-xs font-bold text-stone-600 block mb-2">Komi</label>
+            <input
+              type="number"
+              step={0.5}
+              value={setup.komi}
+              onChange={(e) => setSetup(prev => ({ ...prev, komi: Number(e.target.value) }))}
+              className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
+            />
+          </div>
+        </div>
+
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-stone-200 text-stone-700 rounded-lg hover:bg-stone-300 font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onStart(setup)}
+            className="px-4 py-2 bg-stone-800 text-white rounded-lg hover:bg-stone-700 font-medium"
+          >
+            Start
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React from 'react';
+import { SavedGameSummary } from '../types';
+import { X, FolderOpen, Play, Trash2 } from 'lucide-react';
+
+interface SavedGamesDialogProps {
+  games: SavedGameSummary[] | null; // null while the list is loading
+  currentGameId: string;
+  onResume: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClose: () => void;
+}
+
+export const SavedGamesDialog: React.FC<SavedGamesDialogProps> = ({
+  games,
+  currentGameId,
+  onResume,
+  onDelete,
+  onClose
+}) => {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4 animate-in fade-in duration-200">
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-stone-400 hover:text-stone-600"
+        >
+          <X size={20} />
+        </button>
+
+        <h2 className="text-xl font-bold text-stone-800 mb-4 flex items-center gap-2">
+          <FolderOpen className="text-emerald-600" />
+          Saved Games
+        </h2>
+
+        {games === null ? (
+          <p className="text-sm text-stone-500">Loading...</p>
+        ) : games.length === 0 ? (
+          <p className="text-sm text-stone-500">No saved games yet. Games are saved automatically once a move is played.</p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y divide-stone-100 border border-stone-200 rounded-lg">
+            {games.map(game => (
+              <li key={game.id} className="flex items-center gap-2 px-3 py-2 text-sm">
+                <div className="flex-1">
+                  <div className="font-medium text-stone-800">
+                    {game.boardSize}×{game.boardSize}, move {game.moveCount}
+                    {game.result && <span className="ml-2 text-xs text-stone-500">{game.result}</span>}
+                    {game.id === currentGameId && <span className="ml-2 text-xs text-emerald-600">(current)</span>}
+                  </div>
+                  <div className="text-[11px] text-stone-500">{new Date(game.savedAt).toLocaleString()}</div>
+                </div>
+                <button
+                  onClick={() => onResume(game.id)}
+                  disabled={game.id === currentGameId}
+                  className="p-1.5 rounded text-emerald-700 hover:bg-emerald-50 disabled:opacity-30"
+                  title="Resume this game"
+                >
+                  <Play size={16} />
+                </button>
+                <button
+                  onClick={() => onDelete(game.id)}
+                  disabled={game.id === currentGameId}
+                  className="p-1.5 rounded text-stone-500 hover:bg-red-50 hover:text-red-600 disabled:opacity-30"
+                  title={game.id === currentGameId ? "The game on the board cannot be deleted" : "Delete this game"}
+                >
+                  <Trash2 size={16} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-stone-200 text-stone-700 rounded-lg hover:bg-stone-300 font-medium"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
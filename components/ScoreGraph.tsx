@@ -0,0 +1,112 @@
+import React from 'react';
+import { ScoreEstimatorType } from '../types';
+import { TrendingUp, Square, RefreshCw } from 'lucide-react';
+
+interface ScoreGraphProps {
+  leads: (number | undefined)[]; // Black's estimated lead after each move, index 0 = start
+  currentMove: number;
+  estimatorType: ScoreEstimatorType;
+  estimatorLabels: Record<ScoreEstimatorType, string>;
+  onEstimatorChange: (type: ScoreEstimatorType) => void;
+  // Set for estimators that only run on request
+  onEstimate?: () => void;
+  onStop: () => void;
+  isEstimating: boolean;
+  disabled: boolean;
+  onSelectMove: (moveNumber: number) => void;
+}
+
+const WIDTH = 400;
+const HEIGHT = 80;
+const PADDING = 4;
+
+const formatLead = (lead: number): string => {
+  if (Math.abs(lead) < 0.05) return 'Even';
+  return `${lead > 0 ? 'B' : 'W'}+${Math.abs(lead).toFixed(1)}`;
+};
+
+export const ScoreGraph: React.FC<ScoreGraphProps> = ({
+  leads,
+  currentMove,
+  estimatorType,
+  estimatorLabels,
+  onEstimatorChange,
+  onEstimate,
+  onStop,
+  isEstimating,
+  disabled,
+  onSelectMove
+}) => {
+  const lastMove = Math.max(1, leads.length - 1);
+  const known = leads.filter((lead): lead is number => lead !== undefined);
+  // Keep a minimum range so small leads do not look like landslides
+  const scale = Math.max(10, ...known.map(Math.abs));
+  const toX = (move: number) => (move / lastMove) * WIDTH;
+  const toY = (lead: number) => HEIGHT / 2 - (lead / scale) * (HEIGHT / 2 - PADDING);
+
+  const points = leads
+    .map((lead, move) => lead === undefined ? null : `${toX(move)},${toY(lead)}`)
+    .filter(point => point !== null);
+  const currentLead = leads[currentMove];
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (disabled) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSelectMove(Math.round(((e.clientX - rect.left) / rect.width) * lastMove));
+  };
+
+  return (
+    <div className="w-full max-w-[600px] bg-white rounded-lg border border-stone-200 p-2">
+      <div className="flex items-center gap-2 mb-1">
+        <TrendingUp size={14} className="text-stone-400" />
+        <span className="text-xs font-bold text-stone-600 flex-1">
+          Score Estimate
+          {currentLead !== undefined && <span className="ml-2 font-normal text-stone-500">{formatLead(currentLead)}</span>}
+        </span>
+        <select
+          value={estimatorType}
+          onChange={(e) => onEstimatorChange(e.target.value as ScoreEstimatorType)}
+          disabled={isEstimating}
+          className="text-xs p-1 border border-stone-300 rounded focus:border-emerald-500 outline-none bg-white disabled:opacity-50"
+        >
+          {Object.values(ScoreEstimatorType).map(type => (
+            <option key={type} value={type}>{estimatorLabels[type]}</option>
+          ))}
+        </select>
+        {isEstimating ? (
+          <button onClick={onStop} className="p-1 rounded bg-stone-200 text-stone-700 hover:bg-stone-300" title="Stop estimating">
+            <Square size={12} />
+          </button>
+        ) : onEstimate && (
+          <button
+            onClick={onEstimate}
+            disabled={disabled}
+            className="p-1 rounded bg-stone-200 text-stone-700 hover:bg-stone-300 disabled:opacity-50"
+            title="Estimate the positions not counted yet"
+          >
+            <RefreshCw size={12} />
+          </button>
+        )}
+      </div>
+
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        preserveAspectRatio="none"
+        className={`w-full h-20 ${disabled ? '' : 'cursor-pointer'}`}
+        onClick={handleClick}
+      >
+        <rect x={0} y={0} width={WIDTH} height={HEIGHT / 2} fill="#e7e5e4" />
+        <rect x={0} y={HEIGHT / 2} width={WIDTH} height={HEIGHT / 2} fill="#fafaf9" />
+        <line x1={0} y1={HEIGHT / 2} x2={WIDTH} y2={HEIGHT / 2} stroke="#a8a29e" strokeWidth={0.5} />
+        <line x1={toX(currentMove)} y1={0} x2={toX(currentMove)} y2={HEIGHT} stroke="#059669" strokeWidth={1} />
+        {points.length > 1 && (
+          <polyline points={points.join(' ')} fill="none" stroke="#1c1917" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        )}
+      </svg>
+      <div className="flex justify-between text-[10px] text-stone-400">
+        <span>Black ahead above the line</span>
+        {known.length === 0 && <span>{onEstimate ? 'Press refresh to estimate' : 'No estimates yet'}</span>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { AiTask, GenerationOptions, TaskModelSettings } from '../types';
+
+interface TaskSettingsPanelProps {
+  settings: Record<AiTask, TaskModelSettings>;
+  availableModels: string[];
+  defaultModel: string;
+  onChange: (task: AiTask, settings: TaskModelSettings) => void;
+}
+
+const TASK_LABELS: Record<AiTask, string> = {
+  [AiTask.MOVE]: 'Moves',
+  [AiTask.ANALYSIS]: 'Analysis',
+  [AiTask.CHAT]: 'Tutor',
+};
+
+const OPTION_FIELDS: { key: keyof GenerationOptions; label: string; step: number; min: number; max?: number }[] = [
+  { key: 'temperature', label: 'Temperature', step: 0.1, min: 0, max: 2 },
+  { key: 'top_p', label: 'Top P', step: 0.05, min: 0, max: 1 },
+  { key: 'num_ctx', label: 'Context (Ollama)', step: 1024, min: 512 },
+  { key: 'seed', label: 'Seed', step: 1, min: 0 },
+];
+
+// An empty field leaves the value to the server
+const parseOptional = (text: string): number | undefined => {
+  const value = Number(text);
+  return text.trim() === '' || Number.isNaN(value) ? undefined : value;
+};
+
+// Model and sampling settings for one kind of request at a time
+export const TaskSettingsPanel: React.FC<TaskSettingsPanelProps> = ({
+  settings,
+  availableModels,
+  defaultModel,
+  onChange
+}) => {
+  const [task, setTask] = useState<AiTask>(AiTask.MOVE);
+  const current = settings[task];
+
+  const setOption = (key: keyof GenerationOptions, text: string) => {
+    onChange(task, { ...current, options: { ...current.options, [key]: parseOptional(text) } });
+  };
+
+  return (
+    <div>
+      <label className="text-xs font-bold text-stone-600 block mb-1">Per-task Models</label>
+      <div className="grid grid-cols-3 gap-1 mb-2">
+        {Object.values(AiTask).map(t => (
+          <button
+            key={t}
+            onClick={() => setTask(t)}
+            className={`text-xs px-2 py-1 rounded border ${task === t ? 'bg-emerald-50 border-emerald-500 text-emerald-700 font-bold' : 'border-stone-300 hover:bg-white'}`}
+          >
+            {TASK_LABELS[t]}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="text"
+        list="task-model-options"
+        value={current.model}
+        onChange={(e) => onChange(task, { ...current, model: e.target.value })}
+        placeholder={`Same as above (${defaultModel})`}
+        className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
+      />
+      <datalist id="task-model-options">
+        {availableModels.map(model => (
+          <option key={model} value={model} />
+        ))}
+      </datalist>
+
+      <div className="grid grid-cols-2 gap-1 mt-1">
+        {OPTION_FIELDS.map(field => (
+          <label key={field.key} className="text-[10px] text-stone-500">
+            {field.label}
+            <input
+              type="number"
+              step={field.step}
+              min={field.min}
+              max={field.max}
+              value={current.options[field.key] ?? ''}
+              onChange={(e) => setOption(field.key, e.target.value)}
+              placeholder="default"
+              className="w-full text-xs p-1.5 border border-stone-300 rounded focus:border-emerald-500 outline-none"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useRef, useState } from 'react';
+import { StoneColor, Coordinates, GameTree, KoRule, TsumegoProblem, TsumegoMistake, TsumegoStats } from '../types';
+import { Board } from './Board';
+import { ILLEGAL_MOVE_MESSAGES, toGoCoordinate } from '../utils/gameLogic';
+import { loadTsumegoCollection, playTsumegoMove } from '../utils/tsumego';
+import { Upload, ChevronLeft, ChevronRight, RotateCcw, MessageSquare, CheckCircle, XCircle, Puzzle } from 'lucide-react';
+
+interface TsumegoTrainerProps {
+  stats: TsumegoStats;
+  onResult: (solved: boolean) => void; // First finished attempt at each problem
+  onExplain: (mistake: TsumegoMistake) => void;
+  isExplaining: boolean;
+  koRule: KoRule;
+}
+
+type AttemptStatus = 'solving' | 'solved' | 'wrong';
+
+// Problem mode: the solver plays one side of each problem and the other side answers from
+// the problem's variations
+export const TsumegoTrainer: React.FC<TsumegoTrainerProps> = ({
+  stats,
+  onResult,
+  onExplain,
+  isExplaining,
+  koRule
+}) => {
+  const [collectionName, setCollectionName] = useState('');
+  const [problems, setProblems] = useState<TsumegoProblem[]>([]);
+  const [index, setIndex] = useState(0);
+  const [tree, setTree] = useState<GameTree | null>(null);
+  const [nodeId, setNodeId] = useState(0);
+  const [status, setStatus] = useState<AttemptStatus>('solving');
+  const [comment, setComment] = useState<string | null>(null);
+  const [mistake, setMistake] = useState<TsumegoMistake | null>(null);
+  // Outcome of the first attempt at each problem, by index
+  const [results, setResults] = useState<Record<number, boolean>>({});
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const problem = problems[index];
+  const node = tree ? tree.nodes[nodeId] : null;
+
+  const startProblem = (list: TsumegoProblem[], next: number) => {
+    setIndex(next);
+    setTree(list[next].tree);
+    setNodeId(list[next].tree.rootId);
+    setStatus('solving');
+    setComment(list[next].tree.nodes[list[next].tree.rootId].comment || null);
+    setMistake(null);
+    setMessage(null);
+  };
+
+  const readCollection = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      try {
+        const loaded = loadTsumegoCollection(String(reader.result), file.name.replace(/\.sgf$/i, ''));
+        setCollectionName(file.name);
+        setProblems(loaded);
+        setResults({});
+        startProblem(loaded, 0);
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        setMessage(`Could not load ${file.name}: ${msg}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const finishAttempt = (solved: boolean) => {
+    setStatus(solved ? 'solved' : 'wrong');
+    if (results[index] === undefined) {
+      setResults(prev => ({ ...prev, [index]: solved }));
+      onResult(solved);
+    }
+  };
+
+  const handleClick = (x: number, y: number) => {
+    if (!problem || !tree || !node || status !== 'solving') return;
+    const step = playTsumegoMove(problem, tree, nodeId, { x, y }, koRule);
+    if ('illegal' in step) {
+      setMessage(`Cannot play ${toGoCoordinate(x, y, node.grid.length)}: ${ILLEGAL_MOVE_MESSAGES[step.illegal]}.`);
+      return;
+    }
+    setMessage(null);
+    setTree(step.tree);
+    setNodeId(step.nodeId);
+    setComment(step.comment || null);
+
+    if (step.outcome === 'wrong') {
+      setMistake({
+        problemTitle: problem.title,
+        grid: node.grid,
+        toPlay: node.turn,
+        move: { x, y },
+        correctMoves: node.children
+          .filter(id => problem.correctNodes.has(id))
+          .map(id => tree.nodes[id].move)
+          .filter((move): move is Coordinates => !!move && move !== 'pass'),
+        comment: step.comment,
+      });
+      finishAttempt(false);
+    } else if (step.outcome === 'solved') {
+      finishAttempt(true);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation(); // Keep the drop from loading a game behind the problems
+    const file = e.dataTransfer.files?.[0];
+    if (file) readCollection(file);
+  };
+
+  const toPlay = problem ? (problem.toPlay === StoneColor.BLACK ? 'Black' : 'White') : '';
+  const solvedCount = Object.values(results).filter(Boolean).length;
+  const navClass = "p-1.5 rounded-md text-stone-600 hover:bg-stone-200 disabled:opacity-30 disabled:hover:bg-transparent transition-colors";
+
+  return (
+    <div className="flex flex-col items-center gap-3" onDrop={handleDrop} onDragOver={(e) => e.preventDefault()}>
+      <div className="w-full max-w-xl bg-white rounded-xl shadow-sm border border-stone-200 px-3 py-2 flex items-center gap-2">
+        <Puzzle size={16} className="text-stone-400" />
+        <div className="flex-1 min-w-0">
+          <div className="text-sm font-bold text-stone-800 truncate">{problem ? problem.title : 'Life and Death Problems'}</div>
+          <div className="text-[11px] text-stone-500 truncate">
+            {problem
+              ? `${collectionName}: problem ${index + 1} of ${problems.length}, ${solvedCount} solved first try`
+              : 'Open an SGF collection to start'}
+          </div>
+        </div>
+        <button onClick={() => startProblem(problems, index - 1)} disabled={!problem || index === 0} className={navClass} title="Previous problem">
+          <ChevronLeft size={16} />
+        </button>
+        <button onClick={() => startProblem(problems, index + 1)} disabled={!problem || index === problems.length - 1} className={navClass} title="Next problem">
+          <ChevronRight size={16} />
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 text-xs bg-white text-stone-700 border border-stone-300 rounded-lg hover:bg-stone-50"
+          title="Open an SGF file of problems (or drop one here)"
+        >
+          <Upload size={12} /> Open
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".sgf"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) readCollection(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {problem && node && (
+        <Board
+          grid={node.grid}
+          size={node.grid.length}
+          lastMove={node.move}
+          analysisData={[]}
+          showAnalysis={false}
+          onIntersectionClick={handleClick}
+          disabled={status !== 'solving'}
+        />
+      )}
+
+      {message && (
+        <div className="px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-xs text-amber-800">{message}</div>
+      )}
+
+      {problem && (
+        <div className="w-full max-w-xl bg-white rounded-xl shadow-sm border border-stone-200 p-3 space-y-2">
+          <div className="flex items-center gap-2 text-sm">
+            {status === 'solving' && <span className="font-medium text-stone-700">{toPlay} to play</span>}
+            {status === 'solved' && <span className="flex items-center gap-1 font-bold text-emerald-700"><CheckCircle size={16} /> Solved</span>}
+            {status === 'wrong' && <span className="flex items-center gap-1 font-bold text-red-700"><XCircle size={16} /> Wrong</span>}
+            <span className="flex-1" />
+            {status === 'wrong' && (
+              <button
+                onClick={() => mistake && onExplain(mistake)}
+                disabled={!mistake || isExplaining}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-emerald-50 text-emerald-800 rounded border border-emerald-100 hover:bg-emerald-100 disabled:opacity-50"
+                title="Ask the tutor in the chat why this move fails"
+              >
+                <MessageSquare size={12} /> Why?
+              </button>
+            )}
+            {status !== 'solving' && (
+              <button
+                onClick={() => startProblem(problems, index)}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-stone-200 text-stone-700 rounded hover:bg-stone-300"
+              >
+                <RotateCcw size={12} /> Retry
+              </button>
+            )}
+            {status !== 'solving' && index < problems.length - 1 && (
+              <button
+                onClick={() => startProblem(problems, index + 1)}
+                className="flex items-center gap-1 px-2 py-1 text-xs bg-stone-800 text-white rounded hover:bg-stone-700"
+              >
+                Next <ChevronRight size={12} />
+              </button>
+            )}
+          </div>
+          {comment && <p className="text-xs text-stone-600 whitespace-pre-wrap">{comment}</p>}
+        </div>
+      )}
+
+      <div className="text-[11px] text-stone-500">
+        All time: {stats.solved} solved, {stats.failed} failed
+      </div>
+    </div>
+  );
+};
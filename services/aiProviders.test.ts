@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AiProviderType } from '../types';
+import { AI_PROVIDERS } from './aiProviders';
+
+const SCHEMA = {
+  type: "object",
+  properties: {
+    x: { type: "integer", minimum: 0, maximum: 8 },
+    minimum: { type: "number", exclusiveMinimum: 0 },
+  },
+  required: ["x", "minimum"],
+  additionalProperties: false,
+};
+
+// Send one schema request and return the body the server received
+const sentBody = async (provider: AiProviderType): Promise<any> => {
+  const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => new Response(JSON.stringify({
+    message: { content: '{}' },
+    choices: [{ message: { content: '{}' } }],
+  })));
+  vi.stubGlobal('fetch', fetchMock);
+  await AI_PROVIDERS[provider].chat([], 'model', 'http://127.0.0.1:1234', { schema: SCHEMA }, {});
+  const [, init] = fetchMock.mock.calls[0];
+  return JSON.parse(String(init.body));
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('schema requests', () => {
+  it('leave range keywords out of strict OpenAI-compatible schemas', async () => {
+    const { response_format } = await sentBody(AiProviderType.OPENAI_COMPATIBLE);
+    expect(response_format.json_schema.strict).toBe(true);
+    expect(response_format.json_schema.schema).toEqual({
+      type: "object",
+      properties: {
+        x: { type: "integer" },
+        minimum: { type: "number" },
+      },
+      required: ["x", "minimum"],
+      additionalProperties: false,
+    });
+  });
+
+  it('send the full schema to Ollama', async () => {
+    const { format } = await sentBody(AiProviderType.OLLAMA);
+    expect(format).toEqual(SCHEMA);
+  });
+});
+
+describe('streamed replies', () => {
+  it('cancel the stream when a line cannot be read', async () => {
+    const cancel = vi.fn();
+    // A stream that sends one broken line and then stays open
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('{"message":\n'));
+      },
+      cancel,
+    });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(body)));
+    await expect(AI_PROVIDERS[AiProviderType.OLLAMA].chatStream([], 'model', 'http://127.0.0.1:1234', () => {}, {}))
+      .rejects.toThrow(SyntaxError);
+    expect(cancel).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,255 @@
+import { AiProviderType, AiTask, GenerationOptions, TaskModelSettings } from "../types";
+
+export interface ProviderMessage {
+  role: string;
+  content: string;
+}
+
+// How the reply should be shaped: free text or JSON matching a schema
+export type ResponseFormat = 'text' | { schema: Record<string, any> };
+
+// What the prompts in geminiService need from a model server. `chat` returns the raw text of
+// the reply, constrained to `format` as far as the server supports it.
+export interface AiProvider {
+  label: string;
+  defaultBaseUrl: string;
+  // Aborting `signal` stops the request in every method
+  listModels: (baseUrl: string, signal?: AbortSignal) => Promise<string[]>;
+  chat: (
+    messages: ProviderMessage[],
+    model: string,
+    baseUrl: string,
+    format: ResponseFormat,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ) => Promise<string>;
+  // Stream a free-text reply, calling `onToken` with each piece as it arrives. Resolves with
+  // the whole reply.
+  chatStream: (
+    messages: ProviderMessage[],
+    model: string,
+    baseUrl: string,
+    onToken: (token: string) => void,
+    options: GenerationOptions,
+    signal?: AbortSignal
+  ) => Promise<string>;
+}
+
+// Lower temperature for more consistent logic
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = { temperature: 0.2 };
+
+export const DEFAULT_TASK_SETTINGS: Record<AiTask, TaskModelSettings> = {
+  [AiTask.MOVE]: { model: "", options: DEFAULT_GENERATION_OPTIONS },
+  [AiTask.ANALYSIS]: { model: "", options: DEFAULT_GENERATION_OPTIONS },
+  [AiTask.CHAT]: { model: "", options: DEFAULT_GENERATION_OPTIONS },
+};
+
+// Helper to ensure URL has protocol
+export const normalizeUrl = (url: string): string => {
+  let cleanUrl = url.trim().replace(/\/$/, "");
+  if (!/^https?:\/\//i.test(cleanUrl)) {
+    cleanUrl = "http://" + cleanUrl;
+  }
+  return cleanUrl;
+};
+
+const post = async (url: string, body: any, serverName: string, signal?: AbortSignal): Promise<Response> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(serverName + " API error: " + response.statusText);
+  }
+  return response;
+};
+
+const postJson = async (url: string, body: any, serverName: string, signal?: AbortSignal): Promise<any> =>
+  (await post(url, body, serverName, signal)).json();
+
+// Call `onLine` for every non-empty line of a streamed response body. If `onLine` throws, the
+// stream is cancelled so the connection does not stay open.
+const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop()!;
+      lines.filter(line => line.trim()).forEach(onLine);
+    }
+  } catch (e) {
+    reader.cancel().catch(() => {});
+    throw e;
+  }
+  if (buffer.trim()) onLine(buffer);
+};
+
+// Ollama takes the sampling settings under their own names in `options`
+const ollamaOptions = (options: GenerationOptions) => ({
+  temperature: options.temperature,
+  top_p: options.top_p,
+  num_ctx: options.num_ctx,
+  seed: options.seed,
+});
+
+const ollamaProvider: AiProvider = {
+  label: "Ollama",
+  // Using 127.0.0.1 is safer than localhost to avoid IPv6 resolution issues with Ollama
+  defaultBaseUrl: "http://127.0.0.1:11434",
+
+  listModels: async (baseUrl, signal) => {
+    const response = await fetch(normalizeUrl(baseUrl) + "/api/tags", { signal });
+    if (!response.ok) {
+      throw new Error("Failed to fetch models: " + response.statusText);
+    }
+
+    const data = await response.json();
+    // Ollama API returns structure: { models: [{ name: "llama3:latest", ... }, ...] }
+    if (data.models && Array.isArray(data.models)) {
+      return data.models.map((m: any) => m.name);
+    }
+    return [];
+  },
+
+  chat: async (messages, model, baseUrl, format, options, signal) => {
+    const body: any = {
+      model: model,
+      messages: messages,
+      stream: false,
+      options: ollamaOptions(options),
+    };
+    if (format !== 'text') {
+      body.format = format.schema;
+    }
+
+    const data = await postJson(normalizeUrl(baseUrl) + "/api/chat", body, "Ollama", signal);
+    return data.message?.content || "";
+  },
+
+  // Ollama streams NDJSON: one object per line, each holding the next piece of the message
+  chatStream: async (messages, model, baseUrl, onToken, options, signal) => {
+    const body = {
+      model: model,
+      messages: messages,
+      stream: true,
+      options: ollamaOptions(options),
+    };
+
+    const response = await post(normalizeUrl(baseUrl) + "/api/chat", body, "Ollama", signal);
+    let reply = "";
+    await readLines(response, line => {
+      const data = JSON.parse(line);
+      if (data.error) throw new Error("Ollama API error: " + data.error);
+      const token = data.message?.content || "";
+      if (token) {
+        reply += token;
+        onToken(token);
+      }
+    });
+    return reply;
+  },
+};
+
+// OpenAI-style servers are usually configured with or without the /v1 suffix
+const openAiUrl = (baseUrl: string, path: string): string =>
+  normalizeUrl(baseUrl).replace(/\/v1$/, "") + "/v1" + path;
+
+// Keywords OpenAI's strict structured output does not accept
+const RANGE_KEYWORDS = new Set(["minimum", "maximum", "exclusiveMinimum", "exclusiveMaximum"]);
+
+// Copy of a JSON schema without the range keywords, at every level. Names under `properties`
+// are field names rather than keywords and are kept.
+const withoutRangeKeywords = (schema: unknown, isPropertyMap = false): any => {
+  if (Array.isArray(schema)) return schema.map(item => withoutRangeKeywords(item));
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => isPropertyMap || !RANGE_KEYWORDS.has(key))
+      .map(([key, value]) => [key, withoutRangeKeywords(value, !isPropertyMap && key === 'properties')])
+  );
+};
+
+// The chat completions API has no context size field; the server sets it at startup
+const openAiOptions = (options: GenerationOptions) => ({
+  temperature: options.temperature,
+  top_p: options.top_p,
+  seed: options.seed,
+});
+
+const openAiCompatibleProvider: AiProvider = {
+  label: "OpenAI-compatible (llama.cpp, LM Studio, vLLM)",
+  defaultBaseUrl: "http://127.0.0.1:8080",
+
+  listModels: async (baseUrl, signal) => {
+    const response = await fetch(openAiUrl(baseUrl, "/models"), { signal });
+    if (!response.ok) {
+      throw new Error("Failed to fetch models: " + response.statusText);
+    }
+
+    const data = await response.json();
+    // OpenAI API returns structure: { data: [{ id: "qwen2.5-7b-instruct", ... }, ...] }
+    if (data.data && Array.isArray(data.data)) {
+      return data.data.map((m: any) => m.id);
+    }
+    return [];
+  },
+
+  // Strict schema mode rejects range keywords, so those are left to the reply validators in
+  // modelResponses.
+  chat: async (messages, model, baseUrl, format, options, signal) => {
+    const body: any = {
+      model: model,
+      messages: messages,
+      stream: false,
+      ...openAiOptions(options),
+    };
+    if (format !== 'text') {
+      body.response_format = {
+        type: "json_schema",
+        json_schema: { name: "response", schema: withoutRangeKeywords(format.schema), strict: true },
+      };
+    }
+
+    const data = await postJson(openAiUrl(baseUrl, "/chat/completions"), body, "OpenAI-compatible server", signal);
+    return data.choices?.[0]?.message?.content || "";
+  },
+
+  // OpenAI-style servers stream server-sent events: "data: {...}" lines ending with "data: [DONE]"
+  chatStream: async (messages, model, baseUrl, onToken, options, signal) => {
+    const body = {
+      model: model,
+      messages: messages,
+      stream: true,
+      ...openAiOptions(options),
+    };
+
+    const response = await post(openAiUrl(baseUrl, "/chat/completions"), body, "OpenAI-compatible server", signal);
+    let reply = "";
+    await readLines(response, line => {
+      if (!line.startsWith("data:")) return;
+      const payload = line.slice(5).trim();
+      if (payload === "[DONE]") return;
+      const token = JSON.parse(payload).choices?.[0]?.delta?.content || "";
+      if (token) {
+        reply += token;
+        onToken(token);
+      }
+    });
+    return reply;
+  },
+};
+
+export const AI_PROVIDERS: Record<AiProviderType, AiProvider> = {
+  [AiProviderType.OLLAMA]: ollamaProvider,
+  [AiProviderType.OPENAI_COMPATIBLE]: openAiCompatibleProvider,
+};
@@ -0,0 +1,113 @@
+import { AppSettings, SavedGame, SavedGameSummary, TsumegoStats } from "../types";
+import { getNodePath } from "../utils/gameTree";
+
+// Settings are small and needed before the first render, so they live in localStorage. Game
+// trees hold a full board per move and can grow large, so games go to IndexedDB.
+const SETTINGS_KEY = "zen-go:settings";
+const CURRENT_GAME_KEY = "zen-go:current-game";
+const TSUMEGO_STATS_KEY = "zen-go:tsumego-stats";
+const DB_NAME = "zen-go";
+const DB_VERSION = 1;
+const GAMES_STORE = "games";
+
+// Settings saved by an earlier visit. Missing or unreadable settings just fall back to defaults.
+export const loadSettings = (): Partial<AppSettings> => {
+  try {
+    const text = localStorage.getItem(SETTINGS_KEY);
+    return text ? JSON.parse(text) : {};
+  } catch (e) {
+    console.warn("Could not read saved settings:", e);
+    return {};
+  }
+};
+
+export const saveSettings = (settings: AppSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save settings:", e);
+  }
+};
+
+// Problems solved and failed over every visit
+export const loadTsumegoStats = (): TsumegoStats => {
+  try {
+    const text = localStorage.getItem(TSUMEGO_STATS_KEY);
+    return text ? JSON.parse(text) : { solved: 0, failed: 0 };
+  } catch (e) {
+    console.warn("Could not read problem stats:", e);
+    return { solved: 0, failed: 0 };
+  }
+};
+
+export const saveTsumegoStats = (stats: TsumegoStats): void => {
+  try {
+    localStorage.setItem(TSUMEGO_STATS_KEY, JSON.stringify(stats));
+  } catch (e) {
+    console.warn("Could not save problem stats:", e);
+  }
+};
+
+// The game that was on the board when the page was last left
+export const getCurrentGameId = (): string | null => localStorage.getItem(CURRENT_GAME_KEY);
+
+export const setCurrentGameId = (id: string): void => {
+  localStorage.setItem(CURRENT_GAME_KEY, id);
+};
+
+export const createGameId = (): string =>
+  Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(GAMES_STORE, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run one request against the games store and resolve with its result
+const withGamesStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(GAMES_STORE, mode);
+      const request = run(transaction.objectStore(GAMES_STORE));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveGame = async (game: SavedGame): Promise<void> => {
+  await withGamesStore('readwrite', store => store.put(game));
+};
+
+export const loadGame = async (id: string): Promise<SavedGame | null> =>
+  (await withGamesStore<SavedGame | undefined>('readonly', store => store.get(id))) || null;
+
+export const deleteGame = async (id: string): Promise<void> => {
+  await withGamesStore('readwrite', store => store.delete(id));
+};
+
+// Saved games, most recently played first
+export const listSavedGames = async (): Promise<SavedGameSummary[]> => {
+  const games = await withGamesStore<SavedGame[]>('readonly', store => store.getAll());
+  return games
+    .map(game => ({
+      id: game.id,
+      savedAt: game.savedAt,
+      boardSize: game.setup.boardSize,
+      moveCount: getNodePath(game.tree, game.currentNodeId).length - 1,
+      result: game.gameResult?.result,
+    }))
+    .sort((a, b) => b.savedAt - a.savedAt);
+};
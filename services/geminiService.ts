@@ -1,16 +1,26 @@
-import { StoneColor, AnalysisPoint, MoveResult } from "../types";
-
-const BOARD_SIZE = 19;
+import { StoneColor, AnalysisPoint, MoveResult, RejectedMove, Move, AiBackend, Coordinates, MoveConstraint } from "../types";
+import { AI_PROVIDERS, DEFAULT_GENERATION_OPTIONS, ProviderMessage, ResponseFormat } from "./aiProviders";
+import { RequestControl, withTimeout, isAbortError } from "./requestControl";
+import {
+  ModelResponseError,
+  parseJsonReply,
+  validateMoveReply,
+  validateChoiceReply,
+  validateNamedMoveReply,
+  validateAnalysisReply,
+} from "./modelResponses";
+import { ILLEGAL_MOVE_MESSAGES, COLUMN_LETTERS, toGoCoordinate, parseGoCoordinate } from "../utils/gameLogic";
 
 // Helper to convert grid to string representation for the AI
 export const boardToString = (grid: StoneColor[][]): string => {
-  const letters = "ABCDEFGHJKLMNOPQRST"; // Standard Go coordinates (skip I)
+  const size = grid.length;
+  const letters = COLUMN_LETTERS.slice(0, size); // Standard Go coordinates (skip I)
   let s = "   " + letters.split('').join(' ') + "\n";
   
-  for (let y = 0; y < BOARD_SIZE; y++) {
-    const rowNum = BOARD_SIZE - y;
+  for (let y = 0; y < size; y++) {
+    const rowNum = size - y;
     s += (rowNum < 10 ? " " : "") + rowNum + " ";
-    for (let x = 0; x < BOARD_SIZE; x++) {
+    for (let x = 0; x < size; x++) {
       const val = grid[y][x];
       s += (val === StoneColor.BLACK ? "X" : val === StoneColor.WHITE ? "O" : ".") + " ";
     }
@@ -20,157 +30,245 @@ export const boardToString = (grid: StoneColor[][]): string => {
   return s;
 };
 
-// Helper to convert x,y to Go notation (e.g. 3,3 -> D16)
-const toGoCoordinate = (x: number, y: number): string => {
-  const letters = "ABCDEFGHJKLMNOPQRST";
-  const col = letters[x] || '?';
-  const row = BOARD_SIZE - y;
-  return `${col}${row}`;
-};
+// Describe the board size and coordinate system for the system prompts
+const coordinateHelp = (size: number): string =>
+  `The board is ${size}x${size}. Coordinates: x is 0-${size - 1} (left to right), y is 0-${size - 1} (top to bottom).\n`;
 
-// Helper to ensure URL has protocol
-const normalizeUrl = (url: string): string => {
-  let cleanUrl = url.trim().replace(/\/$/, "");
-  if (!/^https?:\/\//i.test(cleanUrl)) {
-    cleanUrl = "http://" + cleanUrl;
-  }
-  return cleanUrl;
-};
+// Game conditions every prompt should know about
+export interface GameInfo {
+  komi: number;
+  handicap: number;
+}
 
-// Fetch available models from Ollama
-export const fetchOllamaModels = async (baseUrl: string): Promise<string[]> => {
-  try {
-    const cleanUrl = normalizeUrl(baseUrl);
-    const response = await fetch(cleanUrl + "/api/tags");
-    
-    if (!response.ok) {
-      throw new Error("Failed to fetch models: " + response.statusText);
-    }
+const gameInfoHelp = (info: GameInfo): string =>
+  `Komi: ${info.komi}. Handicap: ${info.handicap >= 2 ? info.handicap + " stones for Black" : "none"}.\n`;
 
-    const data = await response.json();
-    // Ollama API returns structure: { models: [{ name: "llama3:latest", ... }, ...] }
-    if (data.models && Array.isArray(data.models)) {
-      return data.models.map((m: any) => m.name);
-    }
-    return [];
+// Textual summary of the last 10 moves. Each history entry records whose turn it was, so its
+// lastMove was played by the other color.
+const recentMovesSummary = (gameHistory: { turn: StoneColor, lastMove: Move | null }[], size: number): string =>
+  gameHistory
+    .filter(state => state.lastMove)
+    .slice(-10)
+    .map((state, i) => {
+        const color = state.turn === StoneColor.BLACK ? "W" : "B";
+        const move = state.lastMove === 'pass' ? "pass" : toGoCoordinate(state.lastMove!.x, state.lastMove!.y, size);
+        return `${i + 1}. ${color} ${move}`;
+    })
+    .join(", ");
+
+// Fetch the models the configured server offers
+export const fetchModels = async (backend: AiBackend, control: RequestControl = {}): Promise<string[]> => {
+  const provider = AI_PROVIDERS[backend.provider];
+  try {
+    return await withTimeout(control, signal => provider.listModels(backend.baseUrl, signal));
   } catch (error) {
-    console.error("Error fetching Ollama models:", error);
+    console.error(`Error fetching ${provider.label} models:`, error);
     throw error;
   }
 };
 
-// Generic fetch wrapper for Ollama using Chat API
-async function callOllamaChat(messages: any[], model: string, baseUrl: string, jsonMode: boolean = true): Promise<any> {
-  const cleanUrl = normalizeUrl(baseUrl);
-  const apiUrl = cleanUrl + "/api/chat";
-
-  const body: any = {
-    model: model,
-    messages: messages,
-    stream: false,
-    options: {
-      temperature: 0.2 // Lower temperature for more consistent logic
-    }
-  };
+// Send a chat to the configured server and return the reply text
+async function callChat(
+  messages: ProviderMessage[],
+  backend: AiBackend,
+  format: ResponseFormat = 'text',
+  control: RequestControl = {}
+): Promise<string> {
+  const provider = AI_PROVIDERS[backend.provider];
 
-  if (jsonMode) {
-    body.format = "json";
-  }
+  const options = backend.options || DEFAULT_GENERATION_OPTIONS;
 
   try {
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(body),
-    });
+    return await withTimeout(control, signal => provider.chat(messages, backend.model, backend.baseUrl, format, options, signal));
+  } catch (error) {
+    // A cancelled request is not a connection problem
+    if (!isAbortError(error)) console.error(`${provider.label} connection failed:`, error);
+    throw error;
+  }
+}
 
-    if (!response.ok) {
-      throw new Error("Ollama API error: " + response.statusText);
-    }
+// Stream a free-text reply from the configured server
+async function callChatStream(
+  messages: ProviderMessage[],
+  backend: AiBackend,
+  onToken: (token: string) => void,
+  control: RequestControl = {}
+): Promise<string> {
+  const provider = AI_PROVIDERS[backend.provider];
 
-    const data = await response.json();
-    const content = data.message?.content || "";
-    
-    if (!jsonMode) {
-      return content;
-    }
+  const options = backend.options || DEFAULT_GENERATION_OPTIONS;
 
-    // Parse JSON
-    try {
-      // Sometimes models wrap JSON in markdown code blocks like ```json ... ```
-      // or add text before/after. We try to find the JSON object/array.
-      const jsonStart = content.indexOf('{');
-      const jsonArrayStart = content.indexOf('[');
-      
-      let startIdx = -1;
-      let endIdx = -1;
-
-      // Determine if object or array comes first
-      if (jsonStart !== -1 && (jsonArrayStart === -1 || jsonStart < jsonArrayStart)) {
-          startIdx = jsonStart;
-          endIdx = content.lastIndexOf('}') + 1;
-      } else if (jsonArrayStart !== -1) {
-          startIdx = jsonArrayStart;
-          endIdx = content.lastIndexOf(']') + 1;
-      }
-
-      if (startIdx !== -1 && endIdx !== -1) {
-        const jsonStr = content.substring(startIdx, endIdx);
-        return JSON.parse(jsonStr);
-      }
-      
-      // Fallback: try parsing the whole string
-      return JSON.parse(content);
-
-    } catch (e) {
-      console.warn("Could not parse JSON from model response", content);
-      throw new Error("Model response was not valid JSON");
-    }
+  try {
+    return await withTimeout(control, signal => provider.chatStream(messages, backend.model, backend.baseUrl, onToken, options, signal));
   } catch (error) {
-    console.error("Ollama connection failed:", error);
+    if (!isAbortError(error)) console.error(`${provider.label} connection failed:`, error);
     throw error;
   }
 }
 
+// Ask for a reply matching `schema` and check it with `validate`. A reply that is not JSON or
+// has the wrong shape throws a ModelResponseError.
+async function callJson<T>(
+  messages: ProviderMessage[],
+  backend: AiBackend,
+  schema: Record<string, any>,
+  validate: (reply: unknown) => T,
+  control: RequestControl = {}
+): Promise<T> {
+  const content = await callChat(messages, backend, { schema }, control);
+  return validate(parseJsonReply(content));
+}
+
+const explanationField = { type: "string" };
+
+const moveSchema = (size: number) => ({
+  type: "object",
+  properties: {
+    x: { type: "integer", minimum: 0, maximum: size - 1 },
+    y: { type: "integer", minimum: 0, maximum: size - 1 },
+    explanation: explanationField,
+  },
+  required: ["x", "y", "explanation"],
+  additionalProperties: false,
+});
+
+const choiceSchema = (count: number) => ({
+  type: "object",
+  properties: {
+    choice: { type: "integer", minimum: 1, maximum: count },
+    explanation: explanationField,
+  },
+  required: ["choice", "explanation"],
+  additionalProperties: false,
+});
+
+// The move field only accepts the listed moves, so the server cannot let the model write
+// anything else
+const namedMoveSchema = (moves: string[]) => ({
+  type: "object",
+  properties: {
+    move: { type: "string", enum: moves },
+    explanation: explanationField,
+  },
+  required: ["move", "explanation"],
+  additionalProperties: false,
+});
+
+const analysisSchema = (size: number) => ({
+  type: "object",
+  properties: {
+    moves: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          x: { type: "integer", minimum: 0, maximum: size - 1 },
+          y: { type: "integer", minimum: 0, maximum: size - 1 },
+          weight: { type: "number", minimum: 0, maximum: 100 },
+          reasoning: { type: "string" },
+        },
+        required: ["x", "y", "weight", "reasoning"],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ["moves"],
+  additionalProperties: false,
+});
+
+// Instructions for the shape of the move reply, depending on how the choice is constrained
+const moveReplyHelp = (constraint: MoveConstraint): string => {
+  if (constraint === MoveConstraint.LIST) {
+    return "Choose ONLY from the numbered list of legal moves you are given.\n" +
+      "Output only a JSON object with 'choice' (the number of the move in the list) and a short 'explanation'.\n";
+  }
+  if (constraint === MoveConstraint.ENUM) {
+    return "Choose ONLY from the list of legal moves you are given.\n" +
+      "Output only a JSON object with 'move' (the move exactly as written in the list, e.g. \"D4\") and a short 'explanation'.\n";
+  }
+  return "Output only a JSON object with coordinates 'x', 'y' and a short 'explanation'.\n";
+};
+
+// Ask for the move in the shape that matches the constraint and turn the reply into a point
+const requestMove = async (
+  messages: ProviderMessage[],
+  backend: AiBackend,
+  constraint: MoveConstraint,
+  candidates: Coordinates[],
+  size: number,
+  control: RequestControl
+): Promise<MoveResult> => {
+  if (constraint === MoveConstraint.LIST) {
+    const reply = await callJson(messages, backend, choiceSchema(candidates.length), validateChoiceReply, control);
+    const point = candidates[reply.choice - 1];
+    if (!point) {
+      throw new ModelResponseError(`Model chose move ${reply.choice}, but the list has ${candidates.length}`, 'out_of_range', JSON.stringify(reply));
+    }
+    return { x: point.x, y: point.y, explanation: reply.explanation };
+  }
+
+  if (constraint === MoveConstraint.ENUM) {
+    const names = candidates.map(m => toGoCoordinate(m.x, m.y, size));
+    const reply = await callJson(messages, backend, namedMoveSchema(names), validateNamedMoveReply, control);
+    const point = names.includes(reply.move.trim().toUpperCase()) ? parseGoCoordinate(reply.move, size) : null;
+    if (!point) {
+      throw new ModelResponseError(`Model chose ${reply.move}, which is not one of the listed moves`, 'out_of_range', JSON.stringify(reply));
+    }
+    return { x: point.x, y: point.y, explanation: reply.explanation };
+  }
+
+  return callJson(messages, backend, moveSchema(size), validateMoveReply, control);
+};
+
+// `candidates` are the moves the model may choose from when `constraint` is not NONE; the
+// caller computes them from the rules and leaves out moves that were already rejected.
 export const getBestMove = async (
   grid: StoneColor[][], 
   player: StoneColor,
-  modelName: string,
-  baseUrl: string
-): Promise<{ result: MoveResult | null, payload: any }> => {
+  gameInfo: GameInfo,
+  backend: AiBackend,
+  rejectedMoves: RejectedMove[] = [],
+  constraint: MoveConstraint = MoveConstraint.NONE,
+  candidates: Coordinates[] = [],
+  control: RequestControl = {}
+): Promise<{ result: MoveResult, payload: any }> => {
   const playerStr = player === StoneColor.BLACK ? "Black (X)" : "White (O)";
   const boardStr = boardToString(grid);
+  const size = grid.length;
+  const constrained = constraint !== MoveConstraint.NONE && candidates.length > 0;
+  const replyConstraint = constrained ? constraint : MoveConstraint.NONE;
 
   const systemPrompt = "You are a professional 9-dan Go (Weiqi) player.\n" +
     "You must analyze the board and find the ONE best move to play next.\n" +
-    "Output only a JSON object with coordinates 'x', 'y' and a short 'explanation'.\n" +
-    "Coordinates: x is 0-18 (left to right), y is 0-18 (top to bottom).\n" +
+    moveReplyHelp(replyConstraint) +
+    coordinateHelp(size) +
+    gameInfoHelp(gameInfo) +
     "Do not output any markdown or conversational text.";
 
-  const userMessage = "Current Board State:\n" + boardStr + "\n\nIt is " + playerStr + "'s turn. What is the best move?";
+  let userMessage = "Current Board State:\n" + boardStr + "\n\nIt is " + playerStr + "'s turn. What is the best move?";
+
+  if (constrained) {
+    userMessage += "\n\nLegal moves:\n" +
+      candidates
+        .map((m, i) => `${i + 1}. ${toGoCoordinate(m.x, m.y, size)} (x=${m.x}, y=${m.y})`)
+        .join("\n");
+  }
+
+  // Tell the model exactly why its earlier suggestions were refused so it does not repeat them
+  if (rejectedMoves.length > 0) {
+    userMessage += "\n\nThese moves were rejected as illegal, do not play them again:\n" +
+      rejectedMoves
+        .map(m => `- ${toGoCoordinate(m.x, m.y, size)} (x=${m.x}, y=${m.y}): ${ILLEGAL_MOVE_MESSAGES[m.reason]}`)
+        .join("\n");
+  }
 
   const messages = [{ role: "system", content: systemPrompt }, { role: "user", content: userMessage }];
 
   try {
-    const json = await callOllamaChat(
-      messages,
-      modelName, 
-      baseUrl, 
-      true
-    );
-    
-    if (json && typeof json.x === 'number' && typeof json.y === 'number') {
-      return { 
-        result: { x: json.x, y: json.y, explanation: json.explanation || "Strategic move" },
-        payload: messages 
-      };
-    }
-    return { result: null, payload: messages };
-
+    const move = await requestMove(messages, backend, replyConstraint, candidates, size, control);
+    return { result: move, payload: messages };
   } catch (error) {
-    console.error("Error getting best move:", error);
+    if (!isAbortError(error)) console.error("Error getting best move:", error);
     throw error;
   }
 };
@@ -178,82 +276,56 @@ export const getBestMove = async (
 export const getBoardAnalysis = async (
   grid: StoneColor[][],
   player: StoneColor,
-  modelName: string,
-  baseUrl: string
+  gameInfo: GameInfo,
+  backend: AiBackend,
+  control: RequestControl = {}
 ): Promise<{ result: AnalysisPoint[], payload: any }> => {
   const playerStr = player === StoneColor.BLACK ? "Black (X)" : "White (O)";
   const boardStr = boardToString(grid);
 
   const systemPrompt = "You are a professional Go tutor.\n" +
     "Identify the top 3 candidate moves for the current player.\n" +
-    "Output only a JSON ARRAY of objects.\n" +
-    "Each object must have 'x', 'y', 'weight' (0-100), and 'reasoning'.\n" +
-    "Coordinates: x is 0-18 (left to right), y is 0-18 (top to bottom).";
+    "Output only a JSON object with a 'moves' array.\n" +
+    "Each move must have 'x', 'y', 'weight' (0-100), and 'reasoning'.\n" +
+    coordinateHelp(grid.length) +
+    gameInfoHelp(gameInfo);
 
   const userMessage = "Current Board State:\n" + boardStr + "\n\nIt is " + playerStr + "'s turn. Analyze the best candidate moves.";
   const messages = [{ role: "system", content: systemPrompt }, { role: "user", content: userMessage }];
 
   try {
-    const data = await callOllamaChat(
-      messages,
-      modelName, 
-      baseUrl, 
-      true
-    );
-    let result: AnalysisPoint[] = [];
-
-    if (Array.isArray(data)) {
-      result = data as AnalysisPoint[];
-    } else if (data && typeof data === 'object') {
-        // Handle case where model wraps array in object like { "moves": [...] }
-        const values = Object.values(data);
-        const array = values.find(v => Array.isArray(v));
-        if (array) result = array as AnalysisPoint[];
-    }
-    return { result, payload: messages };
-
+    const size = grid.length;
+    const { moves } = await callJson(messages, backend, analysisSchema(size), reply => validateAnalysisReply(reply, size), control);
+    return { result: moves, payload: messages };
   } catch (error) {
-    console.error("Error analyzing board:", error);
-    return { result: [], payload: messages };
+    if (!isAbortError(error)) console.error("Error analyzing board:", error);
+    throw error;
   }
 };
 
 export const sendChat = async (
   grid: StoneColor[][],
   player: StoneColor,
+  gameInfo: GameInfo,
   history: { role: string, content: string }[],
-  gameHistory: { turn: StoneColor, lastMove: {x: number, y: number} | null }[],
+  gameHistory: { turn: StoneColor, lastMove: Move | null }[],
   userMessage: string,
-  modelName: string,
-  baseUrl: string
+  backend: AiBackend,
+  onToken?: (token: string) => void,
+  control: RequestControl = {}
 ): Promise<{ result: string, payload: any }> => {
   const playerStr = player === StoneColor.BLACK ? "Black (X)" : "White (O)";
   const boardStr = boardToString(grid);
 
-  // Generate a textual summary of the last 10 moves
-  const recentMovesStr = gameHistory
-    .slice(-10)
-    .map((state, i) => {
-        if (!state.lastMove) return null;
-        const color = state.turn === StoneColor.BLACK ? "White" : "Black"; // The state stores WHOSE turn it WAS, so the move was made by the opponent of current turn? No, wait. 
-        // GameHistory stores state AFTER move usually. 
-        // Let's rely on the input structure. 
-        // We will just assume the history passed in is correct.
-        // Actually, let's just use coordinates.
-        const coord = toGoCoordinate(state.lastMove.x, state.lastMove.y);
-        // The move was made BY the player who just finished their turn.
-        // If current state turn is Black, previous move was White.
-        // Simplification: Just list coordinates.
-        return `${i + 1}. ${coord}`;
-    })
-    .filter(Boolean)
-    .join(", ");
+  const recentMovesStr = recentMovesSummary(gameHistory, grid.length);
 
   const systemPrompt = "You are a friendly and wise Go (Weiqi) tutor.\n" +
   "IMPORTANT: The board layout below is the CURRENT LIVE STATE. Previous chat context may refer to older states.\n" +
   "Always base your answer on the CURRENT BOARD provided here.\n\n" +
   "Current Board:\n" + boardStr + "\n\n" +
   "Recent Moves (Last 10): " + (recentMovesStr || "None") + "\n" +
+  "Board Size: " + grid.length + "x" + grid.length + "\n" +
+  gameInfoHelp(gameInfo) +
   "Current Turn: " + playerStr + "\n" +
   "Answer the user's questions about the game situation, strategy, or rules based on this board.\n" +
   "Keep answers concise and helpful.";
@@ -275,10 +347,48 @@ export const sendChat = async (
   ];
 
   try {
-    const response = await callOllamaChat(messages, modelName, baseUrl, false);
+    // With `onToken` the answer is streamed so it can be shown while it is being written
+    const response = onToken
+      ? await callChatStream(messages, backend, onToken, control)
+      : await callChat(messages, backend, 'text', control);
     return { result: response, payload: messages };
   } catch (error) {
-    console.error("Error in chat:", error);
+    if (!isAbortError(error)) console.error("Error in chat:", error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Ask the model to explain a move chosen elsewhere (e.g. by a GTP engine). The board is the
+// position before the move, so the explanation covers why it was played there.
+export const explainMove = async (
+  grid: StoneColor[][],
+  player: StoneColor,
+  move: Move,
+  gameInfo: GameInfo,
+  gameHistory: { turn: StoneColor, lastMove: Move | null }[],
+  backend: AiBackend,
+  control: RequestControl = {}
+): Promise<{ result: string, payload: any }> => {
+  const playerStr = player === StoneColor.BLACK ? "Black (X)" : "White (O)";
+  const moveStr = move === 'pass' ? "pass" : toGoCoordinate(move.x, move.y, grid.length);
+
+  const systemPrompt = "You are a friendly and wise Go (Weiqi) tutor.\n" +
+    "A strong Go engine has chosen the next move. Do not question or replace it; explain it.\n" +
+    "Describe in plain language, in 2-3 sentences, what the move aims for: shape, territory, attack, defense or life and death.\n" +
+    "Board Size: " + grid.length + "x" + grid.length + "\n" +
+    gameInfoHelp(gameInfo);
+
+  const userMessage = "Board before the move:\n" + boardToString(grid) + "\n\n" +
+    "Recent Moves (Last 10): " + (recentMovesSummary(gameHistory, grid.length) || "None") + "\n" +
+    playerStr + " plays " + moveStr + ". Why is this a good move?";
+
+  const messages = [{ role: "system", content: systemPrompt }, { role: "user", content: userMessage }];
+
+  try {
+    const response = await callChat(messages, backend, 'text', control);
+    return { result: response, payload: messages };
+  } catch (error) {
+    if (!isAbortError(error)) console.error("Error explaining move:", error);
+    throw error;
+  }
+};
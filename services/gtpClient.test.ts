@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StoneColor } from '../types';
+import { createEmptyBoard } from '../utils/gameLogic';
+import { GtpPosition, syncGtpEngine, parseGtpVertex, parseGtpScore, toGtpVertex } from './gtpClient';
+
+const BRIDGE = 'http://127.0.0.1:8765';
+
+const position = (moves: [StoneColor, string][], komi = 6.5): GtpPosition => ({
+  boardSize: 9,
+  komi,
+  setup: createEmptyBoard(9),
+  moves: moves.map(([color, vertex]) => ({ color, move: parseGtpVertex(vertex, 9)! })),
+});
+
+// Commands the bridge received, answered with success unless `rejects` says otherwise
+let commands: string[] = [];
+let rejects: (command: string) => boolean = () => false;
+
+beforeEach(() => {
+  commands = [];
+  rejects = () => false;
+  vi.stubGlobal('fetch', vi.fn(async (_url: string, init: RequestInit) => {
+    const { command } = JSON.parse(String(init.body));
+    commands.push(command);
+    const success = !rejects(command);
+    return new Response(JSON.stringify({ success, response: success ? '' : 'cannot undo' }));
+  }));
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('GTP vertices', () => {
+  it('skip the letter I and count rows from the bottom', () => {
+    expect(toGtpVertex({ x: 8, y: 0 }, 9)).toBe('J9');
+    expect(parseGtpVertex('J9', 9)).toEqual({ x: 8, y: 0 });
+    expect(parseGtpVertex('pass', 9)).toBe('pass');
+  });
+});
+
+describe('parseGtpScore', () => {
+  it('reads final_score as a margin for Black', () => {
+    expect(parseGtpScore('B+3.5')).toBe(3.5);
+    expect(parseGtpScore(' w+7 ')).toBe(-7);
+    expect(parseGtpScore('0')).toBe(0);
+  });
+
+  it('returns null for results that are not a score', () => {
+    expect(parseGtpScore('B+R')).toBeNull();
+    expect(parseGtpScore('')).toBeNull();
+  });
+});
+
+describe('syncGtpEngine', () => {
+  it('sets up a fresh engine from scratch', async () => {
+    await syncGtpEngine(BRIDGE, null, position([[StoneColor.BLACK, 'E5']]));
+    expect(commands).toEqual(['boardsize 9', 'clear_board', 'komi 6.5', 'play black E5']);
+  });
+
+  it('plays only the new moves', async () => {
+    const current = position([[StoneColor.BLACK, 'E5']]);
+    await syncGtpEngine(BRIDGE, current, position([[StoneColor.BLACK, 'E5'], [StoneColor.WHITE, 'C3']]));
+    expect(commands).toEqual(['play white C3']);
+  });
+
+  it('undoes back to the common start of a different line', async () => {
+    const current = position([[StoneColor.BLACK, 'E5'], [StoneColor.WHITE, 'C3'], [StoneColor.BLACK, 'G7']]);
+    await syncGtpEngine(BRIDGE, current, position([[StoneColor.BLACK, 'E5'], [StoneColor.WHITE, 'pass']]));
+    expect(commands).toEqual(['undo', 'undo', 'play white pass']);
+  });
+
+  it('starts over when the engine refuses to undo', async () => {
+    rejects = command => command === 'undo';
+    const current = position([[StoneColor.BLACK, 'E5'], [StoneColor.WHITE, 'C3']]);
+    await syncGtpEngine(BRIDGE, current, position([[StoneColor.BLACK, 'E5']]));
+    expect(commands).toEqual(['undo', 'boardsize 9', 'clear_board', 'komi 6.5', 'play black E5']);
+  });
+
+  it('starts over when the komi or setup changes', async () => {
+    const current = position([[StoneColor.BLACK, 'E5']]);
+    await syncGtpEngine(BRIDGE, current, position([[StoneColor.BLACK, 'E5']], 0.5));
+    expect(commands).toEqual(['boardsize 9', 'clear_board', 'komi 0.5', 'play black E5']);
+  });
+});
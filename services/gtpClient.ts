@@ -0,0 +1,156 @@
+import { StoneColor, Move, GameNode } from "../types";
+import { toGoCoordinate, parseGoCoordinate, gridsEqual } from "../utils/gameLogic";
+import { normalizeUrl } from "./aiProviders";
+
+// Browsers cannot start an engine process, so GTP commands go through the small HTTP bridge
+// in bridge/gtp-bridge.mjs, which forwards them to the engine's stdin.
+export const DEFAULT_GTP_BRIDGE_URL = "http://127.0.0.1:8765";
+
+// A position as the engine knows it: the starting setup plus the moves played since
+export interface GtpPosition {
+  boardSize: number;
+  komi: number;
+  setup: StoneColor[][];
+  moves: { color: StoneColor; move: Move }[];
+}
+
+// Send one command and return the engine's answer without the leading "= ". Aborting `signal`
+// stops waiting for the answer, but the engine may still carry the command out, so the caller
+// should treat the engine's position as unknown afterwards.
+export const sendGtpCommand = async (bridgeUrl: string, command: string, signal?: AbortSignal): Promise<string> => {
+  const response = await fetch(normalizeUrl(bridgeUrl) + "/gtp", {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ command }),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error("GTP bridge error: " + response.statusText);
+  }
+
+  const data = await response.json();
+  if (!data.success) {
+    throw new Error(`GTP engine rejected "${command}": ${data.response}`);
+  }
+  return data.response;
+};
+
+// The position at the end of `path` (root first) in the form the engine is synced to
+export const pathToGtpPosition = (path: GameNode[], komi: number): GtpPosition => ({
+  boardSize: path[0].grid.length,
+  komi,
+  setup: path[0].grid,
+  moves: path.slice(1).map(node => ({ color: node.color!, move: node.move! })),
+});
+
+const gtpColor = (color: StoneColor): string => color === StoneColor.BLACK ? "black" : "white";
+
+export const toGtpVertex = (move: Move, size: number): string =>
+  move === 'pass' ? "pass" : toGoCoordinate(move.x, move.y, size);
+
+// GTP vertices use the same letters as the board labels (no I) and count rows from the bottom
+export const parseGtpVertex = (vertex: string, size: number): Move | null => {
+  if (vertex.trim().toUpperCase() === "PASS") return 'pass';
+  return parseGoCoordinate(vertex, size);
+};
+
+const sameMove = (a: Move, b: Move): boolean => {
+  if (a === 'pass' || b === 'pass') return a === b;
+  return a.x === b.x && a.y === b.y;
+};
+
+const resetEngine = async (bridgeUrl: string, target: GtpPosition, signal?: AbortSignal): Promise<void> => {
+  await sendGtpCommand(bridgeUrl, `boardsize ${target.boardSize}`, signal);
+  await sendGtpCommand(bridgeUrl, "clear_board", signal);
+  await sendGtpCommand(bridgeUrl, `komi ${target.komi}`, signal);
+
+  // Handicap and SGF setup stones are played as ordinary moves, which GTP allows in any order
+  for (let y = 0; y < target.boardSize; y++) {
+    for (let x = 0; x < target.boardSize; x++) {
+      const stone = target.setup[y][x];
+      if (stone !== StoneColor.EMPTY) {
+        await sendGtpCommand(bridgeUrl, `play ${gtpColor(stone)} ${toGoCoordinate(x, y, target.boardSize)}`, signal);
+      }
+    }
+  }
+};
+
+// Bring the engine from the position it last saw to `target`. Moves played in the app become
+// `play`, stepping back becomes `undo`, and a new game or another setup starts over with
+// `boardsize`/`clear_board`/`komi`. Returns the position the engine is now in.
+export const syncGtpEngine = async (
+  bridgeUrl: string,
+  current: GtpPosition | null,
+  target: GtpPosition,
+  signal?: AbortSignal
+): Promise<GtpPosition> => {
+  let needsReset = !current ||
+    current.boardSize !== target.boardSize ||
+    current.komi !== target.komi ||
+    !gridsEqual(current.setup, target.setup);
+
+  let common = 0;
+  if (!needsReset) {
+    while (
+      common < current!.moves.length &&
+      common < target.moves.length &&
+      current!.moves[common].color === target.moves[common].color &&
+      sameMove(current!.moves[common].move, target.moves[common].move)
+    ) {
+      common++;
+    }
+
+    try {
+      for (let i = current!.moves.length; i > common; i--) {
+        await sendGtpCommand(bridgeUrl, "undo", signal);
+      }
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      // Some engines limit how far back undo goes; replaying from the start always works
+      needsReset = true;
+    }
+  }
+
+  if (needsReset) {
+    await resetEngine(bridgeUrl, target, signal);
+    common = 0;
+  }
+
+  for (const { color, move } of target.moves.slice(common)) {
+    await sendGtpCommand(bridgeUrl, `play ${gtpColor(color)} ${toGtpVertex(move, target.boardSize)}`, signal);
+  }
+  return target;
+};
+
+// Ask the engine for a move. It plays the move on its own board before answering.
+export const gtpGenmove = async (
+  bridgeUrl: string,
+  color: StoneColor,
+  size: number,
+  signal?: AbortSignal
+): Promise<Move | 'resign'> => {
+  const vertex = await sendGtpCommand(bridgeUrl, `genmove ${gtpColor(color)}`, signal);
+  if (vertex.trim().toLowerCase() === "resign") return 'resign';
+
+  const move = parseGtpVertex(vertex, size);
+  if (!move) {
+    throw new Error(`GTP engine returned an unknown move: ${vertex}`);
+  }
+  return move;
+};
+
+// The engine's own count of the current position, e.g. "W+7.5"
+export const gtpFinalScore = (bridgeUrl: string, signal?: AbortSignal): Promise<string> =>
+  sendGtpCommand(bridgeUrl, "final_score", signal);
+
+// Black's lead from a final_score answer: "B+3.5" is 3.5, "W+7" is -7 and "0" a draw
+export const parseGtpScore = (score: string): number | null => {
+  const text = score.trim().toUpperCase();
+  if (text === "0") return 0;
+  const match = text.match(/^([BW])\+(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  return match[1] === "B" ? Number(match[2]) : -Number(match[2]);
+};
@@ -0,0 +1,15 @@
+import { findMctsMove, MctsOptions } from '../utils/mcts';
+import { StoneColor } from '../types';
+
+export interface MctsRequest {
+  grid: StoneColor[][];
+  player: StoneColor;
+  history: { grid: StoneColor[][]; turn: StoneColor }[];
+  options: MctsOptions;
+}
+
+// Runs the search off the main thread so the board stays responsive while the bot thinks
+self.onmessage = (event: MessageEvent<MctsRequest>) => {
+  const { grid, player, history, options } = event.data;
+  self.postMessage(findMctsMove(grid, player, history, options));
+};
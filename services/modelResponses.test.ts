@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ModelResponseError,
+  parseJsonReply,
+  validateMoveReply,
+  validateChoiceReply,
+  validateNamedMoveReply,
+  validateAnalysisReply,
+} from './modelResponses';
+
+const reasonOf = (run: () => unknown): string | undefined => {
+  try {
+    run();
+  } catch (e) {
+    if (e instanceof ModelResponseError) return e.reason;
+    throw e;
+  }
+  return undefined;
+};
+
+describe('parseJsonReply', () => {
+  it('accepts JSON inside a markdown code fence', () => {
+    expect(parseJsonReply('```json\n{"x": 1}\n```')).toEqual({ x: 1 });
+  });
+
+  it('reports text that is not JSON', () => {
+    expect(reasonOf(() => parseJsonReply('I would play D4'))).toBe('invalid_json');
+  });
+});
+
+describe('move reply validators', () => {
+  it('return the fields of a well formed reply', () => {
+    expect(validateMoveReply({ x: 3, y: 4, explanation: 'Takes the corner' }))
+      .toEqual({ x: 3, y: 4, explanation: 'Takes the corner' });
+    expect(validateChoiceReply({ choice: 2, explanation: '' })).toEqual({ choice: 2, explanation: '' });
+    expect(validateNamedMoveReply({ move: 'D4', explanation: '' })).toEqual({ move: 'D4', explanation: '' });
+  });
+
+  it('reject missing fields and wrong types', () => {
+    expect(reasonOf(() => validateMoveReply({ x: 3, explanation: '' }))).toBe('invalid_shape');
+    expect(reasonOf(() => validateMoveReply({ x: 3.5, y: 4, explanation: '' }))).toBe('invalid_shape');
+    expect(reasonOf(() => validateChoiceReply({ choice: '2', explanation: '' }))).toBe('invalid_shape');
+    expect(reasonOf(() => validateNamedMoveReply([]))).toBe('invalid_shape');
+  });
+});
+
+describe('validateAnalysisReply', () => {
+  const point = (x: number, y: number, weight = 50) => ({ x, y, weight, reasoning: 'Good shape' });
+
+  it('keeps points on the board and clamps their weight', () => {
+    const { moves } = validateAnalysisReply({ moves: [point(0, 8, 140), point(4, 4, -5)] }, 9);
+    expect(moves.map(m => [m.x, m.y, m.weight])).toEqual([[0, 8, 100], [4, 4, 0]]);
+  });
+
+  it('rejects points off the board', () => {
+    expect(reasonOf(() => validateAnalysisReply({ moves: [point(9, 0)] }, 9))).toBe('out_of_range');
+    expect(reasonOf(() => validateAnalysisReply({ moves: [point(0, -1)] }, 9))).toBe('out_of_range');
+  });
+
+  it('rejects a reply without a moves list', () => {
+    expect(reasonOf(() => validateAnalysisReply({ candidates: [] }, 9))).toBe('invalid_shape');
+  });
+});
@@ -0,0 +1,124 @@
+import { AnalysisPoint } from "../types";
+
+// Why a model reply could not be used:
+// - invalid_json: the text is not JSON at all
+// - invalid_shape: JSON, but a field is missing or has the wrong type
+// - out_of_range: well formed, but names a move that is not on offer (e.g. list number 12 of 10)
+//   or a point off the board
+export type ModelResponseErrorReason = 'invalid_json' | 'invalid_shape' | 'out_of_range';
+
+export class ModelResponseError extends Error {
+  constructor(message: string, readonly reason: ModelResponseErrorReason, readonly content: string) {
+    super(message);
+    this.name = 'ModelResponseError';
+  }
+}
+
+export interface MoveReply {
+  x: number;
+  y: number;
+  explanation: string;
+}
+
+// Reply when the model picks from a numbered list of moves
+export interface ChoiceReply {
+  choice: number;
+  explanation: string;
+}
+
+// Reply when the model picks a move by name, e.g. "D4"
+export interface NamedMoveReply {
+  move: string;
+  explanation: string;
+}
+
+export interface AnalysisReply {
+  moves: AnalysisPoint[];
+}
+
+// Parse the reply text as JSON. A surrounding markdown code fence is tolerated since some
+// models add one even when a schema is enforced.
+export const parseJsonReply = (content: string): unknown => {
+  const text = content.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new ModelResponseError("Model reply is not valid JSON", 'invalid_json', content);
+  }
+};
+
+const shapeError = (what: string, content: unknown): ModelResponseError =>
+  new ModelResponseError(`Model reply ${what}`, 'invalid_shape', JSON.stringify(content));
+
+const expectObject = (value: unknown, what: string, reply: unknown): Record<string, unknown> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw shapeError(what ? `${what} is not an object` : "is not an object", reply);
+  }
+  return value as Record<string, unknown>;
+};
+
+const expectInteger = (obj: Record<string, unknown>, key: string, reply: unknown): number => {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isInteger(value)) throw shapeError(`has no whole number '${key}'`, reply);
+  return value;
+};
+
+const expectNumber = (obj: Record<string, unknown>, key: string, reply: unknown): number => {
+  const value = obj[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw shapeError(`has no number '${key}'`, reply);
+  return value;
+};
+
+const expectString = (obj: Record<string, unknown>, key: string, reply: unknown): string => {
+  const value = obj[key];
+  if (typeof value !== 'string') throw shapeError(`has no text '${key}'`, reply);
+  return value;
+};
+
+export const validateMoveReply = (reply: unknown): MoveReply => {
+  const obj = expectObject(reply, "", reply);
+  return {
+    x: expectInteger(obj, 'x', reply),
+    y: expectInteger(obj, 'y', reply),
+    explanation: expectString(obj, 'explanation', reply),
+  };
+};
+
+export const validateChoiceReply = (reply: unknown): ChoiceReply => {
+  const obj = expectObject(reply, "", reply);
+  return {
+    choice: expectInteger(obj, 'choice', reply),
+    explanation: expectString(obj, 'explanation', reply),
+  };
+};
+
+export const validateNamedMoveReply = (reply: unknown): NamedMoveReply => {
+  const obj = expectObject(reply, "", reply);
+  return {
+    move: expectString(obj, 'move', reply),
+    explanation: expectString(obj, 'explanation', reply),
+  };
+};
+
+// Servers may ignore the schema's minimum and maximum, so every point is checked against the
+// board here
+export const validateAnalysisReply = (reply: unknown, size: number): AnalysisReply => {
+  const obj = expectObject(reply, "", reply);
+  if (!Array.isArray(obj.moves)) throw shapeError("has no 'moves' list", reply);
+  return {
+    moves: obj.moves.map((item, i) => {
+      const point = expectObject(item, `move ${i + 1}`, reply);
+      const x = expectInteger(point, 'x', reply);
+      const y = expectInteger(point, 'y', reply);
+      if (x < 0 || x >= size || y < 0 || y >= size) {
+        throw new ModelResponseError(`Model suggested x=${x}, y=${y}, which is off the ${size}x${size} board`, 'out_of_range', JSON.stringify(reply));
+      }
+      return {
+        x,
+        y,
+        weight: Math.max(0, Math.min(100, expectNumber(point, 'weight', reply))),
+        reasoning: expectString(point, 'reasoning', reply),
+      };
+    }),
+  };
+};
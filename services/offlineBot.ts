@@ -0,0 +1,67 @@
+import { StoneColor, AnalysisPoint } from "../types";
+import { findMctsMove, MctsOptions, MctsResult } from "../utils/mcts";
+import { MctsRequest } from "./mctsWorker";
+
+// Pick a move with the built-in Monte Carlo bot. Needs no server, so it also stands in when
+// the model or engine cannot be reached.
+export const getOfflineMove = (
+  grid: StoneColor[][],
+  player: StoneColor,
+  history: { grid: StoneColor[][]; turn: StoneColor }[],
+  options: MctsOptions,
+  signal?: AbortSignal
+): Promise<MctsResult> => {
+  // Without worker support, search on the main thread instead
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(findMctsMove(grid, player, history, options));
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("The search was cancelled", 'AbortError'));
+      return;
+    }
+    const worker = new Worker(new URL('./mctsWorker.ts', import.meta.url), { type: 'module' });
+    // Cancelling stops the search at once instead of letting it use up its time limit
+    const cancel = () => {
+      worker.terminate();
+      reject(new DOMException("The search was cancelled", 'AbortError'));
+    };
+    signal?.addEventListener('abort', cancel);
+    worker.onmessage = (event: MessageEvent<MctsResult>) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      signal?.removeEventListener('abort', cancel);
+      reject(new Error("Offline bot failed: " + event.message));
+    };
+    const request: MctsRequest = { grid, player, history, options };
+    worker.postMessage(request);
+  });
+};
+
+// Moves tried this rarely, relative to the most visited one, have too few playouts to judge
+const MIN_VISIT_SHARE = 0.05;
+
+// The offline bot's view of a position as analysis points: the moves it searched enough,
+// weighted by the share of their playouts the player to move won
+export const getOfflineAnalysis = async (
+  grid: StoneColor[][],
+  player: StoneColor,
+  history: { grid: StoneColor[][]; turn: StoneColor }[],
+  options: MctsOptions,
+  signal?: AbortSignal
+): Promise<AnalysisPoint[]> => {
+  const { candidates } = await getOfflineMove(grid, player, history, options, signal);
+  const minVisits = (candidates[0]?.visits || 0) * MIN_VISIT_SHARE;
+  const points: AnalysisPoint[] = [];
+  for (const { move, visits, winRate } of candidates) {
+    if (move === 'pass' || visits < minVisits) continue;
+    const percent = Math.round(winRate * 100);
+    points.push({ x: move.x, y: move.y, weight: percent, reasoning: `Won ${percent}% of ${visits} playouts` });
+  }
+  return points;
+};
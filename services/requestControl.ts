@@ -0,0 +1,56 @@
+// How a caller can stop a request to the model server or engine: `signal` cancels it outright
+// (Undo, New Game, Stop) and `timeoutMs` gives up once the time budget is spent.
+export interface RequestControl {
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+// Generous enough for a local model to answer on modest hardware
+export const DEFAULT_AI_TIMEOUT_MS = 60000;
+
+export class AiTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`No answer within ${Math.round(timeoutMs / 1000)} s`);
+    this.name = 'AiTimeoutError';
+  }
+}
+
+const abortError = (): DOMException => new DOMException("The request was cancelled", 'AbortError');
+
+// True for the error fetch (and our own helpers) throw when a request is cancelled
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+// Run `request` with a signal that fires on cancellation or when the time budget runs out. A
+// timeout is reported as AiTimeoutError; a cancellation as an AbortError, even when the answer
+// arrived just after it, so a cancelled caller never acts on a stale reply.
+export const withTimeout = async <T>(
+  control: RequestControl,
+  request: (signal: AbortSignal) => Promise<T>
+): Promise<T> => {
+  if (control.signal?.aborted) throw abortError();
+
+  const controller = new AbortController();
+  const cancel = () => controller.abort();
+  control.signal?.addEventListener('abort', cancel);
+  let timedOut = false;
+  const timer = control.timeoutMs
+    ? setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+      }, control.timeoutMs)
+    : undefined;
+
+  try {
+    const result = await request(controller.signal);
+    if (control.signal?.aborted) throw abortError();
+    return result;
+  } catch (error) {
+    if (control.signal?.aborted) throw abortError();
+    if (timedOut) throw new AiTimeoutError(control.timeoutMs!);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    control.signal?.removeEventListener('abort', cancel);
+  }
+};
@@ -0,0 +1,47 @@
+import { GameNode, ScoreEstimatorType } from "../types";
+import { estimateLead } from "../utils/influence";
+import { GtpPosition, pathToGtpPosition, syncGtpEngine, gtpFinalScore, parseGtpScore } from "./gtpClient";
+
+// Something that can say who is ahead. `estimate` gets the path from the root to the position
+// and resolves with Black's lead in points (negative when White leads).
+export interface ScoreEstimator {
+  label: string;
+  // Cheap estimators follow the game as it is played; slow ones only run when asked to
+  live: boolean;
+  estimate: (path: GameNode[], komi: number, signal?: AbortSignal) => Promise<number>;
+}
+
+export const influenceEstimator: ScoreEstimator = {
+  label: "Influence",
+  live: true,
+  estimate: async (path, komi) => estimateLead(path[path.length - 1].grid, komi),
+};
+
+// Ask the GTP engine to count each position. `engine` is the position the engine was last
+// synced to, shared with move generation so both only send the difference.
+export const createGtpEstimator = (bridgeUrl: string, engine: { current: GtpPosition | null }): ScoreEstimator => ({
+  label: "GTP engine",
+  live: false,
+  estimate: async (path, komi, signal) => {
+    const target = pathToGtpPosition(path, komi);
+    const known = engine.current;
+    engine.current = null;
+    await syncGtpEngine(bridgeUrl, known, target, signal);
+    engine.current = target;
+
+    const answer = await gtpFinalScore(bridgeUrl, signal);
+    const lead = parseGtpScore(answer);
+    if (lead === null) {
+      throw new Error(`GTP engine returned an unknown score: ${answer}`);
+    }
+    return lead;
+  },
+});
+
+export const createScoreEstimators = (
+  gtpBridgeUrl: string,
+  engine: { current: GtpPosition | null }
+): Record<ScoreEstimatorType, ScoreEstimator> => ({
+  [ScoreEstimatorType.INFLUENCE]: influenceEstimator,
+  [ScoreEstimatorType.GTP]: createGtpEstimator(gtpBridgeUrl, engine),
+});
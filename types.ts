@@ -4,15 +4,26 @@ export enum StoneColor {
   WHITE = 2,
 }
 
+// How repeated positions are handled. SIMPLE only forbids immediately retaking a ko;
+// the superko variants forbid recreating any earlier whole-board position.
+export enum KoRule {
+  SIMPLE = 'simple',
+  POSITIONAL = 'positional',
+  SITUATIONAL = 'situational',
+}
+
 export interface Coordinates {
   x: number;
   y: number;
 }
 
+// A move is either a stone placement or a pass
+export type Move = Coordinates | 'pass';
+
 export interface BoardState {
   grid: StoneColor[][];
   size: number;
-  lastMove: Coordinates | null;
+  lastMove: Move | null; // 'pass' when the previous player passed
   captures: {
     black: number;
     white: number;
@@ -20,6 +31,45 @@ export interface BoardState {
   turn: StoneColor; // Whose turn is it currently
 }
 
+// AREA counts stones plus surrounded points (Chinese rules); TERRITORY counts surrounded
+// points plus prisoners (Japanese rules).
+export enum ScoringRule {
+  AREA = 'area',
+  TERRITORY = 'territory',
+}
+
+// HANDICAP while Black places free handicap stones, PLAYING until two consecutive passes,
+// then SCORING while dead stones are marked, FINISHED once both sides have accepted the result.
+export type GamePhase = 'handicap' | 'playing' | 'scoring' | 'finished';
+
+export interface ScoreBreakdown {
+  stones: number;     // Living stones on the board (area scoring only)
+  territory: number;  // Empty or dead-stone points surrounded by this side
+  prisoners: number;  // Captures plus dead stones taken (territory scoring only)
+  komi: number;
+  handicap: number;   // White's compensation for handicap stones (area scoring only)
+  total: number;
+}
+
+export interface ScoreResult {
+  rule: ScoringRule;
+  black: ScoreBreakdown;
+  white: ScoreBreakdown;
+  // Owner of every point that scored: BLACK/WHITE for territory, EMPTY for neutral or stones
+  territoryMap: StoneColor[][];
+  winner: StoneColor; // EMPTY on a draw
+  margin: number;
+  result: string; // e.g. "W+6.5", "B+3" or "Draw"
+}
+
+// Options chosen in the New Game dialog
+export interface GameSetup {
+  boardSize: number;
+  handicap: number; // 0 for an even game, otherwise 2-9 stones
+  handicapPlacement: 'fixed' | 'free';
+  komi: number;
+}
+
 export interface AnalysisPoint {
   x: number;
   y: number;
@@ -33,9 +83,241 @@ export interface MoveResult {
   explanation?: string;
 }
 
+export type IllegalMoveReason =
+  | 'out_of_bounds'
+  | 'occupied'
+  | 'suicide'
+  | 'ko'
+  | 'superko'
+  | 'wrong_turn';
+
+export type MoveLegality =
+  | { legal: true; newGrid: StoneColor[][]; capturedCount: number }
+  | { legal: false; reason: IllegalMoveReason };
+
+// A move the AI suggested that the rules rejected, fed back to it on retry
+export interface RejectedMove {
+  x: number;
+  y: number;
+  reason: IllegalMoveReason;
+}
+
 export interface GameHistory {
   grid: StoneColor[][];
   turn: StoneColor;
   captures: { black: number; white: number };
-  lastMove: Coordinates | null;
+  lastMove: Move | null; // 'pass' when the previous player passed
+}
+
+// One position in the game tree. `move` (made by `color`) leads from the parent to this node;
+// the root holds the starting position (empty board or handicap setup) with no move.
+export interface GameNode {
+  id: number;
+  parent: number | null;
+  children: number[]; // First child continues the main line, the rest are variations
+  move: Move | null;
+  color: StoneColor | null;
+  grid: StoneColor[][];
+  turn: StoneColor; // Player to move in this position
+  captures: { black: number; white: number };
+  comment?: string;
+}
+
+export interface GameTree {
+  nodes: Record<number, GameNode>;
+  rootId: number;
+  nextId: number;
+}
+
+// Which kind of local server answers the AI requests. OPENAI_COMPATIBLE covers servers that
+// implement the OpenAI chat completions API (llama.cpp server, LM Studio, vLLM).
+export enum AiProviderType {
+  OLLAMA = 'ollama',
+  OPENAI_COMPATIBLE = 'openai',
+}
+
+// Sampling settings sent with a request. Fields left unset use the server's own defaults.
+// num_ctx (context window size) is only understood by Ollama.
+export interface GenerationOptions {
+  temperature?: number;
+  top_p?: number;
+  num_ctx?: number;
+  seed?: number;
+}
+
+// Where AI requests go, which model answers them and how it samples
+export interface AiBackend {
+  provider: AiProviderType;
+  baseUrl: string;
+  model: string;
+  options?: GenerationOptions;
+}
+
+// The kinds of request that can each use their own model and sampling settings. MOVE covers
+// choosing the AI's move and the best move hint; CHAT covers the tutor and move explanations.
+export enum AiTask {
+  MOVE = 'move',
+  ANALYSIS = 'analysis',
+  CHAT = 'chat',
+}
+
+// An empty model means the model selected for the server is used
+export interface TaskModelSettings {
+  model: string;
+  options: GenerationOptions;
+}
+
+// What chooses the AI's moves: the language model, a Go engine speaking GTP through the
+// local bridge in bridge/gtp-bridge.mjs, or the built-in Monte Carlo bot in utils/mcts.ts
+export enum MoveEngineType {
+  LLM = 'llm',
+  GTP = 'gtp',
+  MCTS = 'mcts',
+}
+
+// How the model is told which moves it may play. NONE sends only the board; LIST adds a
+// numbered list of legal candidate moves to choose from; ENUM also restricts the reply with a
+// JSON schema whose move field only accepts those candidates.
+export enum MoveConstraint {
+  NONE = 'none',
+  LIST = 'list',
+  ENUM = 'enum',
+}
+
+// What the AI does when its move request runs past the time limit: pass, ask again, or let the
+// offline bot choose the move.
+export enum TimeoutAction {
+  PASS = 'pass',
+  RETRY = 'retry',
+  OFFLINE = 'offline',
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  timestamp: number;
+}
+
+// Settings kept between visits
+export interface AppSettings {
+  aiPlaying: StoneColor | null;
+  aiProvider: AiProviderType;
+  aiBaseUrl: string;
+  aiModel: string;
+  moveEngine: MoveEngineType;
+  moveConstraint: MoveConstraint;
+  gtpBridgeUrl: string;
+  explainEngineMoves: boolean;
+  mctsPlayouts: number;
+  mctsTimeLimitMs: number;
+  offlineFallback: boolean;
+  aiTimeoutMs: number;
+  timeoutAction: TimeoutAction;
+  koRule: KoRule;
+  scoringRule: ScoringRule;
+  taskSettings: Record<AiTask, TaskModelSettings>;
+  scoreEstimator: ScoreEstimatorType;
+}
+
+// Everything needed to pick a game up again where it was left
+export interface SavedGame {
+  id: string;
+  savedAt: number;
+  setup: GameSetup;
+  tree: GameTree;
+  currentNodeId: number;
+  isBrowsing: boolean;
+  gamePhase: GamePhase;
+  consecutivePasses: number;
+  handicapStonesLeft: number;
+  deadStones: Coordinates[];
+  gameResult: ScoreResult | null;
+  chatHistory: ChatMessage[];
+  analysisData: AnalysisPoint[];
+}
+
+// What the saved games list shows without loading every game tree
+export interface SavedGameSummary {
+  id: string;
+  savedAt: number;
+  boardSize: number;
+  moveCount: number;
+  result?: string;
+}
+
+// What judges each position in a game review: the language model's candidate moves or the
+// offline bot's search
+export enum AnalysisSource {
+  LLM = 'llm',
+  MCTS = 'mcts',
+}
+
+// How one move of a reviewed game compares with the candidates for the position before it.
+// `loss` is how much lower the played move scored than the top candidate, 0 to 100.
+export interface MoveReview {
+  nodeId: number;      // Node reached by the move
+  moveNumber: number;
+  color: StoneColor;
+  move: Move;
+  candidates: AnalysisPoint[]; // Best first
+  loss: number;
+  isMistake: boolean;
+}
+
+export interface GameReview {
+  source: AnalysisSource;
+  reviews: MoveReview[]; // In game order, filled in as the review goes
+  total: number;         // Moves to review; passes are skipped
+  skipped: number;       // Positions the analysis could not answer for
+  status: 'running' | 'done' | 'stopped';
+}
+
+// Where the score graph's estimates come from: the influence of the stones on the board, or
+// the GTP engine's own count of each position
+export enum ScoreEstimatorType {
+  INFLUENCE = 'influence',
+  GTP = 'gtp',
+}
+
+// A connected group of stones as the group status overlay sees it
+export interface GroupStatus {
+  color: StoneColor;
+  stones: Coordinates[];
+  liberties: number;
+  eyes: number; // Small empty regions enclosed by this color alone
+  // Atari: one liberty left. Weak: few liberties, or sealed in with no eyes and no open area.
+  status: 'atari' | 'weak' | 'stable';
+}
+
+// One life-and-death problem from an SGF collection. The tree holds the correct and wrong
+// variations; correctNodes are the moves that still lead to a correct ending.
+export interface TsumegoProblem {
+  title: string;
+  tree: GameTree;
+  toPlay: StoneColor;
+  correctNodes: Set<number>;
+}
+
+// What happened after the solver's move, including the opponent's automatic answer
+export interface TsumegoStep {
+  tree: GameTree;     // The problem tree, with any move outside the variations added
+  nodeId: number;     // Position after the opponent's answer, or after the solver's move
+  outcome: 'continue' | 'solved' | 'wrong';
+  comment?: string;   // The problem author's note on the moves just played
+}
+
+// A wrong answer the tutor is asked to explain
+export interface TsumegoMistake {
+  problemTitle: string;
+  grid: StoneColor[][];       // Position the wrong move was played in
+  toPlay: StoneColor;
+  move: Coordinates;
+  correctMoves: Coordinates[]; // Moves the problem accepts in that position
+  comment?: string;            // The problem author's note on the wrong line
+}
+
+// Running totals across problem sessions
+export interface TsumegoStats {
+  solved: number;
+  failed: number;
 }
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { StoneColor, KoRule } from '../types';
+import { placeStone } from './gameLogic';
+import { boardFromRows } from './testBoards';
+
+// Black can take the white stone at B2 by playing C2, leaving a ko
+const KO_SHAPE = boardFromRows([
+  '.XO..',
+  'XO.O.',
+  '.XO..',
+  '.....',
+  '.....',
+]);
+
+describe('placeStone', () => {
+  it('captures stones left without liberties', () => {
+    const result = placeStone(KO_SHAPE, 2, 1, StoneColor.BLACK);
+    expect(result.legal).toBe(true);
+    if (result.legal === false) return;
+    expect(result.capturedCount).toBe(1);
+    expect(result.newGrid[1][1]).toBe(StoneColor.EMPTY);
+  });
+
+  it('rejects occupied points, points off the board and the wrong player', () => {
+    expect(placeStone(KO_SHAPE, 1, 0, StoneColor.WHITE)).toEqual({ legal: false, reason: 'occupied' });
+    expect(placeStone(KO_SHAPE, 5, 0, StoneColor.WHITE)).toEqual({ legal: false, reason: 'out_of_bounds' });
+    expect(placeStone(KO_SHAPE, 4, 4, StoneColor.WHITE, { turn: StoneColor.BLACK }))
+      .toEqual({ legal: false, reason: 'wrong_turn' });
+  });
+
+  it('rejects suicide but allows a move that captures its way to liberties', () => {
+    const grid = boardFromRows([
+      '.X...',
+      'X....',
+      '.....',
+      '.....',
+      '.....',
+    ]);
+    expect(placeStone(grid, 0, 0, StoneColor.WHITE)).toEqual({ legal: false, reason: 'suicide' });
+    expect(placeStone(KO_SHAPE, 2, 1, StoneColor.BLACK).legal).toBe(true);
+  });
+
+  it('forbids retaking a ko immediately', () => {
+    const taken = placeStone(KO_SHAPE, 2, 1, StoneColor.BLACK);
+    if (taken.legal === false) throw new Error('setup move was rejected');
+    const history = [{ grid: KO_SHAPE, turn: StoneColor.BLACK }];
+    expect(placeStone(taken.newGrid, 1, 1, StoneColor.WHITE, { history }))
+      .toEqual({ legal: false, reason: 'ko' });
+    // Without the history the retake looks like an ordinary capture
+    expect(placeStone(taken.newGrid, 1, 1, StoneColor.WHITE).legal).toBe(true);
+  });
+
+  describe('superko', () => {
+    const taken = placeStone(KO_SHAPE, 2, 1, StoneColor.BLACK);
+    if (taken.legal === false) throw new Error('setup move was rejected');
+    // The retake recreates KO_SHAPE; put it further back than the previous position
+    const history = (turn: StoneColor) => [
+      { grid: KO_SHAPE, turn },
+      { grid: boardFromRows(['.....', '.....', '.....', '.....', '....X']), turn: StoneColor.BLACK },
+    ];
+
+    it('only checks the previous position under simple ko', () => {
+      expect(placeStone(taken.newGrid, 1, 1, StoneColor.WHITE, { history: history(StoneColor.BLACK), koRule: KoRule.SIMPLE }).legal)
+        .toBe(true);
+    });
+
+    it('forbids any earlier position under positional superko', () => {
+      expect(placeStone(taken.newGrid, 1, 1, StoneColor.WHITE, { history: history(StoneColor.WHITE), koRule: KoRule.POSITIONAL }))
+        .toEqual({ legal: false, reason: 'superko' });
+    });
+
+    it('forbids an earlier position under situational superko only with the same player to move', () => {
+      expect(placeStone(taken.newGrid, 1, 1, StoneColor.WHITE, { history: history(StoneColor.BLACK), koRule: KoRule.SITUATIONAL }))
+        .toEqual({ legal: false, reason: 'superko' });
+      expect(placeStone(taken.newGrid, 1, 1, StoneColor.WHITE, { history: history(StoneColor.WHITE), koRule: KoRule.SITUATIONAL }).legal)
+        .toBe(true);
+    });
+
+    it('also checks moves that capture nothing', () => {
+      // Black takes two stones at C1, White takes one back at B1, Black passes and White A1
+      // fills in to recreate the starting position
+      const start = boardFromRows(['OO.O.', 'XXO..', '.....', '.....', '.....']);
+      const afterTwo = boardFromRows(['..XO.', 'XXO..', '.....', '.....', '.....']);
+      const afterOne = boardFromRows(['.O.O.', 'XXO..', '.....', '.....', '.....']);
+      const cycle = [
+        { grid: start, turn: StoneColor.BLACK },
+        { grid: afterTwo, turn: StoneColor.WHITE },
+        { grid: afterOne, turn: StoneColor.BLACK },
+        { grid: afterOne, turn: StoneColor.WHITE },
+      ];
+      expect(placeStone(afterOne, 0, 0, StoneColor.WHITE, { history: cycle, koRule: KoRule.POSITIONAL }))
+        .toEqual({ legal: false, reason: 'superko' });
+      expect(placeStone(afterOne, 0, 0, StoneColor.WHITE, { history: cycle, koRule: KoRule.SITUATIONAL }))
+        .toEqual({ legal: false, reason: 'superko' });
+      expect(placeStone(afterOne, 0, 0, StoneColor.WHITE, { history: cycle, koRule: KoRule.SIMPLE }).legal)
+        .toBe(true);
+    });
+  });
+});
@@ -1,7 +1,73 @@
-import { StoneColor, Coordinates } from '../types';
+import { StoneColor, Coordinates, KoRule, MoveLegality, IllegalMoveReason } from '../types';
 
 export const BOARD_SIZE = 19;
 
+// Board sizes offered when starting a new game
+export const BOARD_SIZES = [9, 13, 19];
+
+export const MAX_HANDICAP = 9;
+
+// Standard Go column letters (I is skipped)
+export const COLUMN_LETTERS = "ABCDEFGHJKLMNOPQRST";
+
+// Convert x,y to Go notation, e.g. (3,3) -> D16 on 19x19 or D6 on 9x9
+export const toGoCoordinate = (x: number, y: number, size: number = BOARD_SIZE): string => {
+  const col = COLUMN_LETTERS[x] || '?';
+  return `${col}${size - y}`;
+};
+
+// Parse Go notation back to x,y, e.g. D16 -> (3,3) on 19x19. Returns null for anything that
+// is not a point on this board.
+export const parseGoCoordinate = (text: string, size: number = BOARD_SIZE): Coordinates | null => {
+  const match = /^([A-HJ-T])(\d{1,2})$/.exec(text.trim().toUpperCase());
+  if (!match) return null;
+  const x = COLUMN_LETTERS.indexOf(match[1]);
+  const row = parseInt(match[2], 10);
+  if (x >= size || row < 1 || row > size) return null;
+  return { x, y: size - row };
+};
+
+// Star points (hoshi) for the given board size: corners on the 3-3 point for 9x9 and the
+// 4-4 point otherwise, plus sides and center on odd boards of 13x13 and up.
+export const getStarPoints = (size: number): Coordinates[] => {
+  if (size < 7) return [];
+  const edge = size >= 13 ? 3 : 2;
+  const far = size - 1 - edge;
+  const mid = (size - 1) / 2;
+  const points: Coordinates[] = [
+    { x: edge, y: edge }, { x: far, y: edge },
+    { x: edge, y: far }, { x: far, y: far },
+  ];
+  if (size % 2 === 1) {
+    points.push({ x: mid, y: mid });
+    if (size >= 13) {
+      points.push({ x: mid, y: edge }, { x: mid, y: far }, { x: edge, y: mid }, { x: far, y: mid });
+    }
+  }
+  return points;
+};
+
+// Fixed handicap placement on the star points, in the traditional order: opposite corners
+// first, then the remaining corners, center for odd counts, then the sides.
+export const getHandicapPoints = (size: number, count: number): Coordinates[] => {
+  if (count < 2 || size < 7) return [];
+  const edge = size >= 13 ? 3 : 2;
+  const far = size - 1 - edge;
+  const mid = (size - 1) / 2;
+  const corners: Coordinates[] = [
+    { x: far, y: edge }, { x: edge, y: far }, { x: far, y: far }, { x: edge, y: edge },
+  ];
+  const center: Coordinates = { x: mid, y: mid };
+  const leftRight: Coordinates[] = [{ x: edge, y: mid }, { x: far, y: mid }];
+  const topBottom: Coordinates[] = [{ x: mid, y: edge }, { x: mid, y: far }];
+
+  if (count <= 4) return corners.slice(0, count);
+  if (size % 2 === 0) return corners; // No center or side points on even boards
+  const capped = Math.min(count, MAX_HANDICAP);
+  const sides = capped >= 8 ? [...leftRight, ...topBottom] : capped >= 6 ? leftRight : [];
+  return capped % 2 === 1 ? [...corners, ...sides, center] : [...corners, ...sides];
+};
+
 // Create an empty board
 export const createEmptyBoard = (size: number = BOARD_SIZE): StoneColor[][] => {
   return Array.from({ length: size }, () => Array(size).fill(StoneColor.EMPTY));
@@ -12,13 +78,24 @@ export const copyGrid = (grid: StoneColor[][]): StoneColor[][] => {
   return grid.map(row => [...row]);
 };
 
+// Compare two grids stone by stone
+export const gridsEqual = (a: StoneColor[][], b: StoneColor[][]): boolean => {
+  if (a.length !== b.length) return false;
+  for (let y = 0; y < a.length; y++) {
+    for (let x = 0; x < a[y].length; x++) {
+      if (a[y][x] !== b[y][x]) return false;
+    }
+  }
+  return true;
+};
+
 // Check if a move is within bounds
 export const isValidCoordinate = (x: number, y: number, size: number = BOARD_SIZE): boolean => {
   return x >= 0 && x < size && y >= 0 && y < size;
 };
 
 // Get group of stones connected to (x,y) and their liberties
-const getGroupAndLiberties = (
+export const getGroupAndLiberties = (
   grid: StoneColor[][],
   x: number,
   y: number,
@@ -64,15 +141,40 @@ const getGroupAndLiberties = (
   return { group, liberties: liberties.size };
 };
 
-// Attempt to place a stone. Returns new grid and capture count if valid, or null if invalid.
-// Basic Ko rule not implemented for simplicity, but basic suicide prevention is.
+export interface PlaceStoneOptions {
+  // Positions that came before `grid` (oldest first) with the player who was to move in each,
+  // as stored in GameHistory. Needed for ko and superko checks.
+  history?: { grid: StoneColor[][]; turn: StoneColor }[];
+  koRule?: KoRule;
+  // The player whose turn it is. When given, a stone of the other color is rejected.
+  turn?: StoneColor;
+}
+
+// Human readable explanation for each rejection reason, shared by the UI and the AI prompts
+export const ILLEGAL_MOVE_MESSAGES: Record<IllegalMoveReason, string> = {
+  out_of_bounds: 'the point is outside the board',
+  occupied: 'the point is already occupied',
+  suicide: 'the stone would have no liberties (suicide)',
+  ko: 'it retakes the ko immediately',
+  superko: 'it repeats an earlier board position (superko)',
+  wrong_turn: 'it is not this player\'s turn',
+};
+
+// Attempt to place a stone. Returns the new grid and capture count if the move is legal,
+// otherwise the reason it was rejected.
 export const placeStone = (
   grid: StoneColor[][],
   x: number,
   y: number,
-  color: StoneColor
-): { newGrid: StoneColor[][]; capturedCount: number } | null => {
-  if (grid[y][x] !== StoneColor.EMPTY) return null;
+  color: StoneColor,
+  options: PlaceStoneOptions = {}
+): MoveLegality => {
+  const { history = [], koRule = KoRule.SIMPLE, turn } = options;
+  const illegal = (reason: IllegalMoveReason): MoveLegality => ({ legal: false, reason });
+
+  if (!isValidCoordinate(x, y, grid.length)) return illegal('out_of_bounds');
+  if (turn !== undefined && turn !== color) return illegal('wrong_turn');
+  if (grid[y][x] !== StoneColor.EMPTY) return illegal('occupied');
 
   const newGrid = copyGrid(grid);
   newGrid[y][x] = color;
@@ -113,8 +215,84 @@ export const placeStone = (
     // If it captured something, it now has liberties (the empty spots where opponent was).
     // But we already removed captured stones.
     // So if selfLiberties is still 0, it means it's a true suicide.
-    return null;
+    return illegal('suicide');
+  }
+
+  // Simple ko: a capture may not recreate the position from before the opponent's last move
+  if (history.length > 0) {
+    const previous = history[history.length - 1];
+    if (totalCaptured > 0 && gridsEqual(newGrid, previous.grid)) {
+      return illegal('ko');
+    }
+
+    if (koRule !== KoRule.SIMPLE) {
+      // Positional superko forbids any earlier whole-board position. Situational superko
+      // only forbids it when the same player would be to move, i.e. the opponent.
+      const repeats = history.some(state =>
+        (koRule === KoRule.POSITIONAL || state.turn === opponent) && gridsEqual(newGrid, state.grid)
+      );
+      if (repeats) {
+        return illegal('superko');
+      }
+    }
   }
 
-  return { newGrid, capturedCount: totalCaptured };
+  return { legal: true, newGrid, capturedCount: totalCaptured };
+};
+
+// Every point where `color` may legally play, checked with the same rules as placeStone
+export const getLegalMoves = (
+  grid: StoneColor[][],
+  color: StoneColor,
+  options: PlaceStoneOptions = {}
+): Coordinates[] => {
+  const moves: Coordinates[] = [];
+  for (let y = 0; y < grid.length; y++) {
+    for (let x = 0; x < grid.length; x++) {
+      if (grid[y][x] === StoneColor.EMPTY && placeStone(grid, x, y, color, options).legal) {
+        moves.push({ x, y });
+      }
+    }
+  }
+  return moves;
+};
+
+// Legal moves worth offering to a player who cannot read the board well: own single-point
+// eyes are left out, and when there are more than `limit` the rest are ranked by closeness to
+// existing stones and by the third and fourth lines, where opening moves are played.
+export const getCandidateMoves = (
+  grid: StoneColor[][],
+  color: StoneColor,
+  options: PlaceStoneOptions = {},
+  limit: number = 40
+): Coordinates[] => {
+  const size = grid.length;
+  const isOwnEye = ({ x, y }: Coordinates) =>
+    [[0, 1], [0, -1], [1, 0], [-1, 0]].every(([dx, dy]) =>
+      !isValidCoordinate(x + dx, y + dy, size) || grid[y + dy][x + dx] === color
+    );
+  const moves = getLegalMoves(grid, color, options).filter(move => !isOwnEye(move));
+  if (moves.length <= limit) return moves;
+
+  const nearStones = ({ x, y }: Coordinates) => {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        if (Math.abs(dx) + Math.abs(dy) <= 2 && isValidCoordinate(x + dx, y + dy, size) && grid[y + dy][x + dx] !== StoneColor.EMPTY) {
+          return true;
+        }
+      }
+    }
+    return false;
+  };
+  const onOpeningLine = ({ x, y }: Coordinates) => {
+    const line = Math.min(x, y, size - 1 - x, size - 1 - y) + 1;
+    return line === 3 || line === 4;
+  };
+  const rank = (move: Coordinates) => (nearStones(move) ? 2 : 0) + (onOpeningLine(move) ? 1 : 0);
+
+  return moves
+    .map((move, index) => ({ move, index, score: rank(move) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .slice(0, limit)
+    .map(({ move }) => move);
 };
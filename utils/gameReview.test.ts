@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { AnalysisPoint, StoneColor } from '../types';
+import { biggestMistakes, evaluatedReviews, reviewMove } from './gameReview';
+
+const CANDIDATES: AnalysisPoint[] = [
+  { x: 2, y: 2, weight: 40, reasoning: 'Corner' },
+  { x: 6, y: 6, weight: 80, reasoning: 'Other corner' },
+];
+
+describe('reviewMove', () => {
+  it('flags a move far from the best candidate that loses enough', () => {
+    const review = reviewMove(1, 1, StoneColor.BLACK, { x: 0, y: 8 }, CANDIDATES);
+    expect(review.candidates[0].weight).toBe(80);
+    expect(review.loss).toBe(80);
+    expect(review.isMistake).toBe(true);
+  });
+
+  it('does not flag a candidate or a move next to the best one', () => {
+    expect(reviewMove(1, 1, StoneColor.BLACK, { x: 2, y: 2 }, CANDIDATES)).toMatchObject({ loss: 40, isMistake: false });
+    expect(reviewMove(1, 1, StoneColor.BLACK, { x: 5, y: 6 }, CANDIDATES).isMistake).toBe(false);
+  });
+});
+
+describe('evaluatedReviews', () => {
+  it('leaves out moves whose position could not be analyzed', () => {
+    const reviews = [
+      reviewMove(1, 1, StoneColor.BLACK, { x: 0, y: 8 }, CANDIDATES),
+      reviewMove(2, 2, StoneColor.WHITE, { x: 4, y: 4 }, []),
+    ];
+    expect(evaluatedReviews(reviews).map(review => review.nodeId)).toEqual([1]);
+    expect(biggestMistakes(reviews).map(review => review.nodeId)).toEqual([1]);
+  });
+});
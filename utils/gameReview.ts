@@ -0,0 +1,53 @@
+import { AnalysisPoint, Move, MoveReview, StoneColor } from '../types';
+
+// A move scoring this much below the best candidate, and not near it, counts as a mistake
+export const MISTAKE_LOSS = 30;
+
+// Candidates kept per move for the report and the board overlay
+const REVIEW_CANDIDATES = 5;
+
+// A move within this many points of the best candidate is taken to follow the same idea
+const SAME_IDEA_DISTANCE = 1;
+
+// Compare the move played with the candidates for the position before it. A move that is not
+// among the candidates scores 0.
+export const reviewMove = (
+  nodeId: number,
+  moveNumber: number,
+  color: StoneColor,
+  move: Move,
+  candidates: AnalysisPoint[]
+): MoveReview => {
+  const ranked = [...candidates].sort((a, b) => b.weight - a.weight);
+  const top = ranked[0];
+  if (!top) {
+    return { nodeId, moveNumber, color, move, candidates: [], loss: 0, isMistake: false };
+  }
+
+  const played = move === 'pass' ? undefined : ranked.find(p => p.x === move.x && p.y === move.y);
+  const loss = Math.max(0, top.weight - (played ? played.weight : 0));
+  const nearTop = move !== 'pass' &&
+    Math.max(Math.abs(move.x - top.x), Math.abs(move.y - top.y)) <= SAME_IDEA_DISTANCE;
+
+  return {
+    nodeId,
+    moveNumber,
+    color,
+    move,
+    candidates: ranked.slice(0, REVIEW_CANDIDATES),
+    loss,
+    isMistake: !played && !nearTop && loss >= MISTAKE_LOSS,
+  };
+};
+
+// The flagged moves, biggest loss first
+export const biggestMistakes = (reviews: MoveReview[], count = 5): MoveReview[] =>
+  reviews
+    .filter(review => review.isMistake)
+    .sort((a, b) => b.loss - a.loss)
+    .slice(0, count);
+
+// The moves that were measured against candidates. A move whose position could not be
+// analyzed is kept in the review without any, and must not count as reviewed.
+export const evaluatedReviews = (reviews: MoveReview[]): MoveReview[] =>
+  reviews.filter(review => review.candidates.length > 0);
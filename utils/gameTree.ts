@@ -0,0 +1,164 @@
+import { StoneColor, Move, GameNode, GameTree, GameHistory } from '../types';
+
+// All helpers return a new tree and leave the one passed in untouched, so the result can be
+// handed straight to React state.
+
+export const createGameTree = (grid: StoneColor[][], turn: StoneColor, comment?: string): GameTree => {
+  const root: GameNode = {
+    id: 0,
+    parent: null,
+    children: [],
+    move: null,
+    color: null,
+    grid,
+    turn,
+    captures: { black: 0, white: 0 },
+    comment,
+  };
+  return { nodes: { 0: root }, rootId: 0, nextId: 1 };
+};
+
+const sameMove = (a: Move | null, b: Move | null): boolean => {
+  if (a === 'pass' || b === 'pass' || !a || !b) return a === b;
+  return a.x === b.x && a.y === b.y;
+};
+
+// The child of `parentId` reached by `move`, if that move has been played there
+export const findChild = (tree: GameTree, parentId: number, move: Move): number | undefined =>
+  tree.nodes[parentId]?.children.find(id => sameMove(tree.nodes[id].move, move));
+
+// Add a move below `parentId`. Playing a move that already exists there reuses that node
+// instead of creating a duplicate variation.
+export const addMoveNode = (
+  tree: GameTree,
+  parentId: number,
+  move: Move,
+  color: StoneColor,
+  grid: StoneColor[][],
+  captures: { black: number; white: number },
+  comment?: string
+): { tree: GameTree; nodeId: number } => {
+  const parent = tree.nodes[parentId];
+  const existingId = findChild(tree, parentId, move);
+  if (existingId !== undefined) {
+    return { tree: comment ? appendComment(tree, existingId, comment) : tree, nodeId: existingId };
+  }
+
+  const nodeId = tree.nextId;
+  const node: GameNode = {
+    id: nodeId,
+    parent: parentId,
+    children: [],
+    move,
+    color,
+    grid,
+    turn: color === StoneColor.BLACK ? StoneColor.WHITE : StoneColor.BLACK,
+    captures,
+    comment,
+  };
+  return {
+    tree: {
+      ...tree,
+      nodes: {
+        ...tree.nodes,
+        [parentId]: { ...parent, children: [...parent.children, nodeId] },
+        [nodeId]: node,
+      },
+      nextId: nodeId + 1,
+    },
+    nodeId,
+  };
+};
+
+export const updateNode = (tree: GameTree, nodeId: number, changes: Partial<GameNode>): GameTree => ({
+  ...tree,
+  nodes: { ...tree.nodes, [nodeId]: { ...tree.nodes[nodeId], ...changes } },
+});
+
+export const appendComment = (tree: GameTree, nodeId: number, text: string): GameTree => {
+  const existing = tree.nodes[nodeId].comment;
+  return updateNode(tree, nodeId, { comment: existing ? `${existing}\n\n${text}` : text });
+};
+
+// Nodes from the root down to `nodeId`, inclusive
+export const getNodePath = (tree: GameTree, nodeId: number): GameNode[] => {
+  const path: GameNode[] = [];
+  let node: GameNode | undefined = tree.nodes[nodeId];
+  while (node) {
+    path.unshift(node);
+    node = node.parent === null ? undefined : tree.nodes[node.parent];
+  }
+  return path;
+};
+
+// The positions before the last node of a path, in the GameHistory format used for ko checks,
+// prompts and undo
+export const pathToHistory = (path: GameNode[]): GameHistory[] => {
+  return path.slice(0, -1).map(node => ({
+    grid: node.grid,
+    turn: node.turn,
+    captures: node.captures,
+    lastMove: node.move,
+  }));
+};
+
+// Follow first children from `nodeId` to the end of its line
+export const getLineEnd = (tree: GameTree, nodeId: number): number => {
+  let id = nodeId;
+  while (tree.nodes[id].children.length > 0) {
+    id = tree.nodes[id].children[0];
+  }
+  return id;
+};
+
+// How many passes in a row led to this node (0, 1 or 2)
+export const countTrailingPasses = (tree: GameTree, nodeId: number): number => {
+  let count = 0;
+  let node: GameNode | undefined = tree.nodes[nodeId];
+  while (node && node.move === 'pass' && count < 2) {
+    count++;
+    node = node.parent === null ? undefined : tree.nodes[node.parent];
+  }
+  return count;
+};
+
+// Remove a node and everything below it. The root cannot be deleted.
+export const deleteBranch = (tree: GameTree, nodeId: number): GameTree => {
+  const node = tree.nodes[nodeId];
+  if (node.parent === null) return tree;
+
+  const nodes = { ...tree.nodes };
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    stack.push(...nodes[id].children);
+    delete nodes[id];
+  }
+  const parent = nodes[node.parent];
+  nodes[node.parent] = { ...parent, children: parent.children.filter(id => id !== nodeId) };
+  return { ...tree, nodes };
+};
+
+// Make the line through `nodeId` the main line by moving it to the front at every fork above it
+export const promoteToMainLine = (tree: GameTree, nodeId: number): GameTree => {
+  const nodes = { ...tree.nodes };
+  let child = nodes[nodeId];
+  while (child.parent !== null) {
+    const parent = nodes[child.parent];
+    const childId = child.id;
+    nodes[parent.id] = { ...parent, children: [childId, ...parent.children.filter(id => id !== childId)] };
+    child = nodes[parent.id];
+  }
+  return { ...tree, nodes };
+};
+
+// Is `nodeId` on the main line (first child at every fork)?
+export const isOnMainLine = (tree: GameTree, nodeId: number): boolean => {
+  let node = tree.nodes[nodeId];
+  while (node.parent !== null) {
+    const parent = tree.nodes[node.parent];
+    if (parent.children[0] !== node.id) return false;
+    node = parent;
+  }
+  return true;
+};
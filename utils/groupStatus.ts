@@ -0,0 +1,51 @@
+import { StoneColor, Coordinates, GroupStatus } from '../types';
+import { getGroupAndLiberties } from './gameLogic';
+import { getRegion } from './scoring';
+
+// Groups with this many liberties or fewer are flagged even when they have eyes
+const FEW_LIBERTIES = 2;
+
+// Enclosed empty regions up to this size count as eyes; larger ones are open area to live in
+const MAX_EYE_SPACE = 7;
+
+// Every group on the board with its liberties, eyes and how urgent its situation is
+export const analyzeGroups = (grid: StoneColor[][]): GroupStatus[] => {
+  const size = grid.length;
+  const groupAt: number[][] = grid.map(row => row.map(() => -1));
+  const groups: { color: StoneColor; stones: Coordinates[]; liberties: number }[] = [];
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = grid[y][x];
+      if (color === StoneColor.EMPTY || groupAt[y][x] !== -1) continue;
+      const { group, liberties } = getGroupAndLiberties(grid, x, y, color);
+      group.forEach(stone => { groupAt[stone.y][stone.x] = groups.length; });
+      groups.push({ color, stones: group, liberties });
+    }
+  }
+
+  // Sort each empty region into the groups it gives eyes or room to
+  const eyes = groups.map(() => 0);
+  const hasRoom = groups.map(() => false);
+  const visited = grid.map(row => row.map(() => false));
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (grid[y][x] !== StoneColor.EMPTY || visited[y][x]) continue;
+      const region = getRegion(grid, x, y, visited);
+      const touching = new Set(region.borderStones.map(stone => groupAt[stone.y][stone.x]));
+      const isEye = region.points.length <= MAX_EYE_SPACE && region.borderColors.size === 1;
+      touching.forEach(index => {
+        if (region.points.length > MAX_EYE_SPACE) hasRoom[index] = true;
+        else if (isEye) eyes[index]++;
+      });
+    }
+  }
+
+  return groups.map((group, index) => {
+    const sealedIn = eyes[index] === 0 && !hasRoom[index];
+    const status = group.liberties <= 1
+      ? 'atari'
+      : group.liberties <= FEW_LIBERTIES || sealedIn ? 'weak' : 'stable';
+    return { ...group, eyes: eyes[index], status };
+  });
+};
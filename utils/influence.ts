@@ -0,0 +1,56 @@
+import { StoneColor } from '../types';
+
+// Each stone spreads influence that fades with distance, out to this many steps
+const INFLUENCE_RADIUS = 4;
+
+// An empty point needs this much net influence to be counted for one side
+const OWNERSHIP_THRESHOLD = 0.5;
+
+// Net influence on every point: positive where Black dominates, negative for White. Stones are
+// taken to be alive, so dead stones left on the board still radiate.
+export const computeInfluence = (grid: StoneColor[][]): number[][] => {
+  const size = grid.length;
+  const influence = grid.map(row => row.map(() => 0));
+
+  for (let sy = 0; sy < size; sy++) {
+    for (let sx = 0; sx < size; sx++) {
+      const stone = grid[sy][sx];
+      if (stone === StoneColor.EMPTY) continue;
+      const sign = stone === StoneColor.BLACK ? 1 : -1;
+
+      for (let dy = -INFLUENCE_RADIUS; dy <= INFLUENCE_RADIUS; dy++) {
+        const y = sy + dy;
+        if (y < 0 || y >= size) continue;
+        const reach = INFLUENCE_RADIUS - Math.abs(dy);
+        for (let dx = -reach; dx <= reach; dx++) {
+          const x = sx + dx;
+          if (x < 0 || x >= size) continue;
+          influence[y][x] += sign / (1 + Math.abs(dx) + Math.abs(dy));
+        }
+      }
+    }
+  }
+  return influence;
+};
+
+// Who each point probably belongs to, from -1 (surely White) to 1 (surely Black). Stones belong
+// to their color; empty points lean the way their influence does.
+export const estimateOwnership = (grid: StoneColor[][]): number[][] => {
+  const influence = computeInfluence(grid);
+  return grid.map((row, y) => row.map((stone, x) => {
+    if (stone === StoneColor.BLACK) return 1;
+    if (stone === StoneColor.WHITE) return -1;
+    return Math.max(-1, Math.min(1, influence[y][x]));
+  }));
+};
+
+// Black's lead in points by area counting: stones plus clearly influenced empty points, less
+// komi. Negative when White leads.
+export const estimateLead = (grid: StoneColor[][], komi: number): number => {
+  let lead = -komi;
+  estimateOwnership(grid).forEach(row => row.forEach(owner => {
+    if (owner >= OWNERSHIP_THRESHOLD) lead++;
+    else if (owner <= -OWNERSHIP_THRESHOLD) lead--;
+  }));
+  return lead;
+};
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { StoneColor } from '../types';
+import { findMctsMove } from './mcts';
+import { boardFromRows } from './testBoards';
+
+// Black owns the three left columns and White the right one, with dame between them, so
+// Black wins the area count 15 to 5 before komi
+const FINISHED_GAME = boardFromRows([
+  '..X.O',
+  '..X.O',
+  '..X.O',
+  '..X.O',
+  '..X.O',
+]);
+
+const passWinRate = (player: StoneColor, passes: number): number | undefined => {
+  const { candidates } = findMctsMove(FINISHED_GAME, player, [], { playouts: 400, timeLimitMs: 5000, komi: 0.5, passes });
+  return candidates.find(candidate => candidate.move === 'pass')?.winRate;
+};
+
+describe('findMctsMove', () => {
+  it('knows that passing after a pass ends the game on the current count', () => {
+    expect(passWinRate(StoneColor.BLACK, 1)).toBe(1);
+    expect(passWinRate(StoneColor.WHITE, 1)).toBe(0);
+  });
+
+  it('plays on after a pass when the game has not ended', () => {
+    const { move, candidates } = findMctsMove(FINISHED_GAME, StoneColor.WHITE, [], { playouts: 400, timeLimitMs: 5000, komi: 0.5, passes: 1 });
+    expect(move).not.toBe('pass');
+    expect(candidates.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,369 @@
+import { StoneColor, Move, KoRule } from '../types';
+import { placeStone } from './gameLogic';
+
+export interface MctsOptions {
+  playouts: number;    // Number of random games to simulate
+  timeLimitMs: number; // Stop early once this much time has passed
+  komi: number;
+  koRule?: KoRule;
+  // Passes in a row just before this position (see countTrailingPasses). After one, a pass
+  // by the bot ends the game, so the search scores that line instead of playing it out.
+  passes?: number;
+}
+
+export const DEFAULT_MCTS_PLAYOUTS = 3000;
+export const DEFAULT_MCTS_TIME_LIMIT_MS = 3000;
+
+export interface MctsCandidate {
+  move: Move;
+  visits: number;
+  winRate: number;  // Share of simulations through `move` won by the player to move, 0 to 1
+}
+
+export interface MctsResult {
+  move: Move;
+  playouts: number; // Simulations actually run
+  winRate: number;
+  candidates: MctsCandidate[]; // Every move the search tried, most visited first
+}
+
+// The search plays thousands of random games, so below the root it uses a flat board instead
+// of placeStone, which copies the grid and builds string sets on every call. Only the simple
+// ko rule is checked there; the root moves themselves are checked by placeStone with the
+// game's history and ko rule.
+interface FlatBoard {
+  size: number;
+  points: Int8Array;   // StoneColor per point, index y * size + x
+  ko: number;          // Point that may not be played this turn, -1 if none
+}
+
+interface SearchNode {
+  board: FlatBoard;
+  toMove: StoneColor;
+  move: Move | null;   // Move that led here, played by the other color
+  parent: SearchNode | null;
+  children: SearchNode[];
+  untried: Move[];
+  visits: number;
+  wins: number;        // Wins for the player who played `move`
+  passes: number;      // Consecutive passes leading here
+}
+
+const EXPLORATION = 1.4;
+
+const opponentOf = (color: StoneColor): StoneColor =>
+  color === StoneColor.BLACK ? StoneColor.WHITE : StoneColor.BLACK;
+
+const neighborCache = new Map<number, number[][]>();
+
+const neighborsFor = (size: number): number[][] => {
+  let neighbors = neighborCache.get(size);
+  if (!neighbors) {
+    neighbors = [];
+    for (let p = 0; p < size * size; p++) {
+      const x = p % size;
+      const y = Math.floor(p / size);
+      const list: number[] = [];
+      if (x > 0) list.push(p - 1);
+      if (x < size - 1) list.push(p + 1);
+      if (y > 0) list.push(p - size);
+      if (y < size - 1) list.push(p + size);
+      neighbors.push(list);
+    }
+    neighborCache.set(size, neighbors);
+  }
+  return neighbors;
+};
+
+const toFlatBoard = (grid: StoneColor[][]): FlatBoard => {
+  const size = grid.length;
+  const points = new Int8Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) points[y * size + x] = grid[y][x];
+  }
+  return { size, points, ko: -1 };
+};
+
+const cloneBoard = (board: FlatBoard): FlatBoard =>
+  ({ size: board.size, points: board.points.slice(), ko: board.ko });
+
+// Flood fill marks, reused between calls to avoid allocating a set for every group
+let marks = new Int32Array(0);
+let stamp = 0;
+
+// Does the group at `start` have a liberty? Stops at the first one found.
+const hasLiberty = (board: FlatBoard, start: number): boolean => {
+  const neighbors = neighborsFor(board.size);
+  if (marks.length < board.points.length) marks = new Int32Array(board.points.length);
+  const mark = ++stamp;
+  const color = board.points[start];
+  const stack = [start];
+  marks[start] = mark;
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    for (const q of neighbors[current]) {
+      const stone = board.points[q];
+      if (stone === StoneColor.EMPTY) return true;
+      if (stone === color && marks[q] !== mark) {
+        marks[q] = mark;
+        stack.push(q);
+      }
+    }
+  }
+  return false;
+};
+
+// Take the group at `start` off the board and return how many stones it had
+const removeGroup = (board: FlatBoard, start: number): number => {
+  const neighbors = neighborsFor(board.size);
+  const color = board.points[start];
+  const stack = [start];
+  board.points[start] = StoneColor.EMPTY;
+  let count = 0;
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    count++;
+    for (const q of neighbors[current]) {
+      if (board.points[q] === color) {
+        board.points[q] = StoneColor.EMPTY;
+        stack.push(q);
+      }
+    }
+  }
+  return count;
+};
+
+// Play `color` at point `p` in place. Returns false, leaving the board unchanged, when the
+// point is taken, is the ko point or would be suicide.
+const playFlat = (board: FlatBoard, p: number, color: StoneColor): boolean => {
+  if (board.points[p] !== StoneColor.EMPTY || p === board.ko) return false;
+  const neighbors = neighborsFor(board.size);
+  const opponent = opponentOf(color);
+  board.points[p] = color;
+
+  let captured = 0;
+  let capturedPoint = -1;
+  for (const q of neighbors[p]) {
+    if (board.points[q] !== opponent || hasLiberty(board, q)) continue;
+    captured += removeGroup(board, q);
+    capturedPoint = q;
+  }
+
+  if (captured === 0 && !hasLiberty(board, p)) {
+    board.points[p] = StoneColor.EMPTY;
+    return false;
+  }
+
+  // A single stone that captured a single stone and sits in its only liberty is a ko
+  const alone = neighbors[p].every(q => board.points[q] !== color);
+  const libertyCount = neighbors[p].filter(q => board.points[q] === StoneColor.EMPTY).length;
+  board.ko = captured === 1 && alone && libertyCount === 1 ? capturedPoint : -1;
+  return true;
+};
+
+// A point whose neighbors are all `color` is an eye; random play never fills its own eyes,
+// otherwise playouts would kill every group and say nothing about the position.
+const isOwnEye = (board: FlatBoard, p: number, color: StoneColor): boolean =>
+  neighborsFor(board.size)[p].every(q => board.points[q] === color);
+
+// Area score from Black's point of view: stones plus empty regions bordered by one color only.
+// Playouts end with every eye filled except real ones, so no dead stone marking is needed.
+const areaScore = (board: FlatBoard, komi: number): number => {
+  const neighbors = neighborsFor(board.size);
+  const seen = new Uint8Array(board.points.length);
+  let score = -komi;
+
+  for (let p = 0; p < board.points.length; p++) {
+    const stone = board.points[p];
+    if (stone === StoneColor.BLACK) score++;
+    else if (stone === StoneColor.WHITE) score--;
+    if (stone !== StoneColor.EMPTY || seen[p]) continue;
+
+    let region = 0;
+    let touchesBlack = false;
+    let touchesWhite = false;
+    const stack = [p];
+    seen[p] = 1;
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      region++;
+      for (const q of neighbors[current]) {
+        const neighbor = board.points[q];
+        if (neighbor === StoneColor.BLACK) touchesBlack = true;
+        else if (neighbor === StoneColor.WHITE) touchesWhite = true;
+        else if (!seen[q]) {
+          seen[q] = 1;
+          stack.push(q);
+        }
+      }
+    }
+    if (touchesBlack && !touchesWhite) score += region;
+    else if (touchesWhite && !touchesBlack) score -= region;
+  }
+  return score;
+};
+
+const winnerOf = (board: FlatBoard, komi: number): StoneColor => {
+  const score = areaScore(board, komi);
+  return score > 0 ? StoneColor.BLACK : score < 0 ? StoneColor.WHITE : StoneColor.EMPTY;
+};
+
+// Play one random non-eye-filling move, trying points from a random starting place
+const playRandomMove = (board: FlatBoard, color: StoneColor): boolean => {
+  const total = board.points.length;
+  const offset = Math.floor(Math.random() * total);
+  for (let i = 0; i < total; i++) {
+    const p = (offset + i) % total;
+    if (board.points[p] !== StoneColor.EMPTY || isOwnEye(board, p, color)) continue;
+    if (playFlat(board, p, color)) return true;
+  }
+  return false;
+};
+
+// Play random moves to the end of the game and return the winner
+const playout = (start: SearchNode, komi: number): StoneColor => {
+  const board = cloneBoard(start.board);
+  let toMove = start.toMove;
+  let passes = start.passes;
+  // Long ko fights can loop forever under the simple ko rule
+  const maxMoves = board.points.length * 2;
+
+  for (let i = 0; i < maxMoves && passes < 2; i++) {
+    if (playRandomMove(board, toMove)) {
+      passes = 0;
+    } else {
+      board.ko = -1;
+      passes++;
+    }
+    toMove = opponentOf(toMove);
+  }
+  return winnerOf(board, komi);
+};
+
+const shuffle = <T>(items: T[]): T[] => {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+};
+
+// Moves worth searching below the root: every legal point except own eyes. Pass goes first
+// because untried moves are taken from the end, so it is only tried after the real moves.
+const candidateMoves = (board: FlatBoard, toMove: StoneColor): Move[] => {
+  const moves: Move[] = [];
+  for (let p = 0; p < board.points.length; p++) {
+    if (board.points[p] !== StoneColor.EMPTY || p === board.ko || isOwnEye(board, p, toMove)) continue;
+    const trial = cloneBoard(board);
+    if (playFlat(trial, p, toMove)) moves.push({ x: p % board.size, y: Math.floor(p / board.size) });
+  }
+  return ['pass', ...shuffle(moves)];
+};
+
+// Root moves are checked against the real game history so ko and superko are respected
+const rootMoves = (
+  grid: StoneColor[][],
+  toMove: StoneColor,
+  history: { grid: StoneColor[][]; turn: StoneColor }[],
+  koRule: KoRule
+): Move[] => {
+  const board = toFlatBoard(grid);
+  const moves: Move[] = [];
+  for (let y = 0; y < grid.length; y++) {
+    for (let x = 0; x < grid.length; x++) {
+      if (grid[y][x] !== StoneColor.EMPTY || isOwnEye(board, y * grid.length + x, toMove)) continue;
+      if (placeStone(grid, x, y, toMove, { history, koRule }).legal) moves.push({ x, y });
+    }
+  }
+  return ['pass', ...shuffle(moves)];
+};
+
+const createNode = (
+  board: FlatBoard,
+  toMove: StoneColor,
+  move: Move | null,
+  parent: SearchNode | null,
+  passes: number
+): SearchNode => ({
+  board,
+  toMove,
+  move,
+  parent,
+  children: [],
+  untried: passes >= 2 ? [] : candidateMoves(board, toMove),
+  visits: 0,
+  wins: 0,
+  passes,
+});
+
+const selectChild = (node: SearchNode): SearchNode => {
+  let best = node.children[0];
+  let bestValue = -Infinity;
+  const logVisits = Math.log(node.visits);
+  for (const child of node.children) {
+    const value = child.wins / child.visits + EXPLORATION * Math.sqrt(logVisits / child.visits);
+    if (value > bestValue) {
+      bestValue = value;
+      best = child;
+    }
+  }
+  return best;
+};
+
+const expand = (node: SearchNode): SearchNode => {
+  const move = node.untried.pop()!;
+  const board = cloneBoard(node.board);
+  if (move === 'pass') {
+    board.ko = -1;
+  } else {
+    playFlat(board, move.y * board.size + move.x, node.toMove);
+  }
+  const child = createNode(board, opponentOf(node.toMove), move, node, move === 'pass' ? node.passes + 1 : 0);
+  node.children.push(child);
+  return child;
+};
+
+// Monte Carlo tree search: grow a tree of moves, choosing branches by UCT, and judge each new
+// position by one random playout. The most visited move at the root is played.
+// `history` holds the earlier positions (oldest first) so the root moves respect ko and superko.
+export const findMctsMove = (
+  grid: StoneColor[][],
+  player: StoneColor,
+  history: { grid: StoneColor[][]; turn: StoneColor }[],
+  options: MctsOptions
+): MctsResult => {
+  const { playouts, timeLimitMs, komi, koRule = KoRule.SIMPLE, passes = 0 } = options;
+  const root = createNode(toFlatBoard(grid), player, null, null, passes);
+  root.untried = rootMoves(grid, player, history, koRule);
+  const deadline = Date.now() + timeLimitMs;
+
+  let count = 0;
+  while (count < playouts && Date.now() < deadline) {
+    let node = root;
+    while (node.untried.length === 0 && node.children.length > 0) {
+      node = selectChild(node);
+    }
+    if (node.untried.length > 0) {
+      node = expand(node);
+    }
+
+    const winner = node.passes >= 2 ? winnerOf(node.board, komi) : playout(node, komi);
+    for (let n: SearchNode | null = node; n; n = n.parent) {
+      n.visits++;
+      if (winner === opponentOf(n.toMove)) n.wins++;
+      else if (winner === StoneColor.EMPTY) n.wins += 0.5;
+    }
+    count++;
+  }
+
+  // On equal visits prefer a real move, so a search cut short does not end the game early
+  const played = root.children.filter(child => child.visits > 0);
+  if (played.length === 0) {
+    return { move: 'pass', playouts: count, winRate: 0, candidates: [] };
+  }
+  const best = played.reduce((a, b) => (b.visits > a.visits || (b.visits === a.visits && a.move === 'pass') ? b : a));
+  const candidates = played
+    .map(child => ({ move: child.move!, visits: child.visits, winRate: child.wins / child.visits }))
+    .sort((a, b) => b.visits - a.visits);
+  return { move: best.move!, playouts: count, winRate: best.wins / best.visits, candidates };
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { StoneColor, ScoringRule } from '../types';
+import { scoreGame } from './scoring';
+import { boardFromRows } from './testBoards';
+
+const NO_CAPTURES = { black: 0, white: 0 };
+
+// Black walls off the left side and White the right; the middle column is dame
+const SPLIT_BOARD = boardFromRows([
+  '.X.O.',
+  '.X.O.',
+  '.X.O.',
+  '.X.O.',
+  '.X.O.',
+]);
+
+// The two groups share the liberty at C5 and each has one eye: neither side can fill it
+const SEKI_BOARD = boardFromRows([
+  '.X.O.',
+  'XXXOO',
+  'XXXOO',
+  'XXXOO',
+  'XXXOO',
+]);
+
+describe('scoreGame', () => {
+  it('counts stones and territory under area scoring', () => {
+    const result = scoreGame(SPLIT_BOARD, { rule: ScoringRule.AREA, komi: 6.5, captures: NO_CAPTURES });
+    expect(result.black.total).toBe(10);
+    expect(result.white.total).toBe(16.5);
+    expect(result.result).toBe('W+6.5');
+    expect(result.territoryMap[0][0]).toBe(StoneColor.BLACK);
+    expect(result.territoryMap[0][2]).toBe(StoneColor.EMPTY);
+  });
+
+  it('counts territory and prisoners under territory scoring', () => {
+    const result = scoreGame(SPLIT_BOARD, { rule: ScoringRule.TERRITORY, komi: 0.5, captures: { black: 0, white: 3 } });
+    expect(result.black).toMatchObject({ territory: 5, prisoners: 3, total: 8 });
+    expect(result.white).toMatchObject({ territory: 5, prisoners: 0, total: 5.5 });
+    expect(result.winner).toBe(StoneColor.BLACK);
+  });
+
+  it('removes dead stones and gives them to the opponent', () => {
+    const grid = boardFromRows([
+      '.X.O.',
+      'OX.O.',
+      '.X.O.',
+      '.X.O.',
+      '.X.O.',
+    ]);
+    const options = { komi: 0, captures: NO_CAPTURES, deadStones: [{ x: 0, y: 1 }] };
+    expect(scoreGame(grid, { ...options, rule: ScoringRule.TERRITORY }).black).toMatchObject({ territory: 5, prisoners: 1 });
+    expect(scoreGame(grid, { ...options, rule: ScoringRule.AREA }).black.total).toBe(10);
+  });
+
+  it('gives White one point per handicap stone under area scoring', () => {
+    const result = scoreGame(SPLIT_BOARD, { rule: ScoringRule.AREA, komi: 0.5, handicap: 2, captures: NO_CAPTURES });
+    expect(result.white).toMatchObject({ handicap: 2, total: 12.5 });
+  });
+
+  it('does not count eyes of groups in seki under territory scoring', () => {
+    const result = scoreGame(SEKI_BOARD, { rule: ScoringRule.TERRITORY, komi: 0, captures: NO_CAPTURES });
+    expect(result.black.territory).toBe(0);
+    expect(result.white.territory).toBe(0);
+    expect(result.result).toBe('Draw');
+  });
+
+  it('counts a region that only touches a group in seki on one side', () => {
+    // The black stone at E7 is in seki with the white group, sharing F7; its other liberty
+    // opens into the area walled off by the separate black group on column D
+    const grid = boardFromRows([
+      '....X.O',
+      '...XOOO',
+      '...XOOO',
+      '...XOOO',
+      '...XOOO',
+      '...XOOO',
+      '...XOO.',
+    ]);
+    const result = scoreGame(grid, { rule: ScoringRule.TERRITORY, komi: 0, captures: NO_CAPTURES });
+    expect(result.black.territory).toBe(22);
+    expect(result.white.territory).toBe(0);
+    expect(result.territoryMap[0][5]).toBe(StoneColor.EMPTY);
+  });
+
+  it('still counts the eyes of groups in seki under area scoring', () => {
+    const result = scoreGame(SEKI_BOARD, { rule: ScoringRule.AREA, komi: 0, captures: NO_CAPTURES });
+    expect(result.black).toMatchObject({ stones: 13, territory: 1 });
+    expect(result.white).toMatchObject({ stones: 9, territory: 1 });
+  });
+});
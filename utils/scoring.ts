@@ -0,0 +1,220 @@
+import { StoneColor, Coordinates, ScoringRule, ScoreResult, ScoreBreakdown } from '../types';
+import { copyGrid, createEmptyBoard, getGroupAndLiberties, isValidCoordinate, placeStone } from './gameLogic';
+
+export const DEFAULT_KOMI = 6.5;
+
+export interface ScoreOptions {
+  rule: ScoringRule;
+  komi: number;
+  // Number of handicap stones Black received. Area scoring gives White one point per stone,
+  // as Chinese rules do; territory scoring needs no adjustment.
+  handicap?: number;
+  // Stones of each color captured during play, as tracked in BoardState.captures
+  // (captures.black counts black stones taken by White)
+  captures: { black: number; white: number };
+  // Stones both players agreed are dead; they are removed and counted as prisoners
+  deadStones?: Coordinates[];
+}
+
+const DIRECTIONS = [
+  { dx: 0, dy: 1 },
+  { dx: 0, dy: -1 },
+  { dx: 1, dy: 0 },
+  { dx: -1, dy: 0 },
+];
+
+// Collect an empty region by flood fill, along with the colors and stones bordering it
+export const getRegion = (
+  grid: StoneColor[][],
+  x: number,
+  y: number,
+  visited: boolean[][]
+): { points: Coordinates[]; borderColors: Set<StoneColor>; borderStones: Coordinates[] } => {
+  const size = grid.length;
+  const points: Coordinates[] = [];
+  const borderColors = new Set<StoneColor>();
+  const borderStones: Coordinates[] = [];
+  const stack: Coordinates[] = [{ x, y }];
+  visited[y][x] = true;
+
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    points.push(current);
+
+    for (const dir of DIRECTIONS) {
+      const nx = current.x + dir.dx;
+      const ny = current.y + dir.dy;
+      if (!isValidCoordinate(nx, ny, size)) continue;
+
+      const neighbor = grid[ny][nx];
+      if (neighbor === StoneColor.EMPTY) {
+        if (!visited[ny][nx]) {
+          visited[ny][nx] = true;
+          stack.push({ x: nx, y: ny });
+        }
+      } else {
+        borderColors.add(neighbor);
+        borderStones.push({ x: nx, y: ny });
+      }
+    }
+  }
+
+  return { points, borderColors, borderStones };
+};
+
+// Playing here would leave the mover's own group with at most one liberty without capturing
+const isSelfAtari = (grid: StoneColor[][], x: number, y: number, color: StoneColor): boolean => {
+  const outcome = placeStone(grid, x, y, color);
+  if (outcome.legal === false) return true;
+  if (outcome.capturedCount > 0) return false;
+  return getGroupAndLiberties(outcome.newGrid, x, y, color).liberties <= 1;
+};
+
+// Find the stones of groups in seki. A shared liberty is a seki point when neither side can
+// fill it without putting itself in atari; every group touching such a point is in seki.
+// Ordinary dame can be filled safely by both sides, so it does not qualify.
+const findSekiStones = (grid: StoneColor[][]): Set<string> => {
+  const size = grid.length;
+  const seki = new Set<string>();
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (grid[y][x] !== StoneColor.EMPTY) continue;
+
+      const neighbors = DIRECTIONS
+        .map(d => ({ x: x + d.dx, y: y + d.dy }))
+        .filter(p => isValidCoordinate(p.x, p.y, size) && grid[p.y][p.x] !== StoneColor.EMPTY);
+      const colors = new Set(neighbors.map(p => grid[p.y][p.x]));
+      if (colors.size < 2) continue;
+
+      if (isSelfAtari(grid, x, y, StoneColor.BLACK) && isSelfAtari(grid, x, y, StoneColor.WHITE)) {
+        for (const p of neighbors) {
+          const { group } = getGroupAndLiberties(grid, p.x, p.y, grid[p.y][p.x]);
+          group.forEach(stone => seki.add(`${stone.x},${stone.y}`));
+        }
+      }
+    }
+  }
+
+  return seki;
+};
+
+// Format a final result the way SGF RE[] does, e.g. "W+6.5"
+export const formatResult = (winner: StoneColor, margin: number): string => {
+  if (winner === StoneColor.EMPTY) return 'Draw';
+  return `${winner === StoneColor.BLACK ? 'B' : 'W'}+${margin}`;
+};
+
+// Score a finished position under area (Chinese) or territory (Japanese) rules.
+// Empty regions bordered by a single color belong to that color; regions touching both colors
+// are neutral. Under territory rules, the eyes of groups in seki (regions bordered only by
+// seki stones) are not counted; a region that also borders other stones still is.
+export const scoreGame = (grid: StoneColor[][], options: ScoreOptions): ScoreResult => {
+  const { rule, komi, captures, deadStones = [], handicap = 0 } = options;
+  const size = grid.length;
+  const board = copyGrid(grid);
+
+  // Remove dead stones; they become prisoners of the opponent
+  const deadCount = { black: 0, white: 0 };
+  for (const stone of deadStones) {
+    const color = board[stone.y]?.[stone.x];
+    if (color === StoneColor.BLACK) deadCount.black++;
+    else if (color === StoneColor.WHITE) deadCount.white++;
+    else continue;
+    board[stone.y][stone.x] = StoneColor.EMPTY;
+  }
+
+  const sekiStones = rule === ScoringRule.TERRITORY ? findSekiStones(board) : new Set<string>();
+  const territoryMap = createEmptyBoard(size);
+  const visited: boolean[][] = Array.from({ length: size }, () => Array(size).fill(false));
+  const territory = { black: 0, white: 0 };
+  const stones = { black: 0, white: 0 };
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const color = board[y][x];
+      if (color === StoneColor.BLACK) {
+        stones.black++;
+        continue;
+      }
+      if (color === StoneColor.WHITE) {
+        stones.white++;
+        continue;
+      }
+      if (visited[y][x]) continue;
+
+      const { points, borderColors, borderStones } = getRegion(board, x, y, visited);
+      if (borderColors.size !== 1) continue; // Neutral (dame or shared liberties)
+
+      const owner = borderColors.values().next().value as StoneColor;
+      if (borderStones.every(s => sekiStones.has(`${s.x},${s.y}`))) continue;
+
+      points.forEach(p => {
+        territoryMap[p.y][p.x] = owner;
+      });
+      if (owner === StoneColor.BLACK) territory.black += points.length;
+      else territory.white += points.length;
+    }
+  }
+
+  const breakdown = (color: 'black' | 'white'): ScoreBreakdown => {
+    const opponent = color === 'black' ? 'white' : 'black';
+    const colorKomi = color === 'white' ? komi : 0;
+    if (rule === ScoringRule.AREA) {
+      const compensation = color === 'white' && handicap >= 2 ? handicap : 0;
+      return {
+        stones: stones[color],
+        territory: territory[color],
+        prisoners: 0,
+        komi: colorKomi,
+        handicap: compensation,
+        total: stones[color] + territory[color] + colorKomi + compensation,
+      };
+    }
+    const prisoners = captures[opponent] + deadCount[opponent];
+    return {
+      stones: 0,
+      territory: territory[color],
+      prisoners,
+      komi: colorKomi,
+      handicap: 0,
+      total: territory[color] + prisoners + colorKomi,
+    };
+  };
+
+  const black = breakdown('black');
+  const white = breakdown('white');
+  const diff = black.total - white.total;
+  const winner = diff > 0 ? StoneColor.BLACK : diff < 0 ? StoneColor.WHITE : StoneColor.EMPTY;
+  const margin = Math.abs(diff);
+
+  return {
+    rule,
+    black,
+    white,
+    territoryMap,
+    winner,
+    margin,
+    result: formatResult(winner, margin),
+  };
+};
+
+// Toggle the whole chain at (x,y) between dead and alive during the scoring phase.
+// Returns the new list of dead stones; clicking an empty point changes nothing.
+export const toggleDeadGroup = (
+  grid: StoneColor[][],
+  deadStones: Coordinates[],
+  x: number,
+  y: number
+): Coordinates[] => {
+  const color = grid[y][x];
+  if (color === StoneColor.EMPTY) return deadStones;
+
+  const { group } = getGroupAndLiberties(grid, x, y, color);
+  const isDead = deadStones.some(s => s.x === x && s.y === y);
+  if (isDead) {
+    const keys = new Set(group.map(s => `${s.x},${s.y}`));
+    return deadStones.filter(s => !keys.has(`${s.x},${s.y}`));
+  }
+  return [...deadStones, ...group];
+};
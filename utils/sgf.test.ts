@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { StoneColor, GameTree } from '../types';
+import { parseSgfCollection, loadSgf, serializeSgf, sgfRootToGameInfo } from './sgf';
+
+const RECORD = `(;GM[1]FF[4]SZ[9]KM[6.5]PB[Ann]PW[Ben]RE[B+3]AB[cc][gc]C[Two stones]
+;W[ee]C[Center \\] point];B[eg]
+(;W[ge];B[ce])
+(;W[ce]C[Variation]))`;
+
+// The moves and comments of a tree in depth-first order, for comparing trees loaded separately
+const describeTree = (tree: GameTree): string[] => {
+  const lines: string[] = [];
+  const visit = (id: number, depth: number) => {
+    const node = tree.nodes[id];
+    const move = node.move === null ? 'root' : node.move === 'pass' ? 'pass' : `${node.move.x},${node.move.y}`;
+    lines.push(`${depth} ${node.color} ${move} ${node.comment ?? ''}`);
+    node.children.forEach(child => visit(child, depth + 1));
+  };
+  visit(tree.rootId, 0);
+  return lines;
+};
+
+describe('parseSgfCollection', () => {
+  it('reads every game with its properties and variations', () => {
+    const games = parseSgfCollection('(;SZ[9];B[aa](;W[bb])(;W[cc]))\n(;SZ[13])');
+    expect(games).toHaveLength(2);
+    expect(games[0].props.SZ).toEqual(['9']);
+    expect(games[0].children[0].children.map(node => node.props.W[0])).toEqual(['bb', 'cc']);
+  });
+
+  it('unescapes property values', () => {
+    const [game] = parseSgfCollection('(;C[a \\] b\\\\ c])');
+    expect(game.props.C).toEqual(['a ] b\\ c']);
+  });
+
+  it('throws on malformed input', () => {
+    expect(() => parseSgfCollection('(;B[aa]')).toThrow();
+    expect(() => parseSgfCollection('')).toThrow('no game found');
+  });
+});
+
+describe('sgfRootToGameInfo', () => {
+  it('expands compressed point lists', () => {
+    const [root] = parseSgfCollection('(;SZ[9]AB[aa:bb])');
+    expect(sgfRootToGameInfo(root).setup.black).toHaveLength(4);
+  });
+
+  it('rejects boards the coordinates cannot label', () => {
+    const [root] = parseSgfCollection('(;SZ[21])');
+    expect(() => sgfRootToGameInfo(root)).toThrow('unsupported board size');
+  });
+});
+
+describe('loadSgf and serializeSgf', () => {
+  it('load setup stones, moves, comments and variations', () => {
+    const { info, tree } = loadSgf(RECORD);
+    expect(info).toMatchObject({ boardSize: 9, komi: 6.5, playerBlack: 'Ann', result: 'B+3' });
+    const root = tree.nodes[tree.rootId];
+    expect(root.grid[2][2]).toBe(StoneColor.BLACK);
+    expect(root.turn).toBe(StoneColor.WHITE);
+    expect(tree.nodes[root.children[0]].comment).toBe('Center ] point');
+    expect(describeTree(tree)).toHaveLength(6);
+  });
+
+  it('round-trips a record through serialize and load', () => {
+    const first = loadSgf(RECORD);
+    const text = serializeSgf(first.info, first.tree);
+    const second = loadSgf(text);
+    expect(second.info).toMatchObject({ boardSize: 9, komi: 6.5, playerBlack: 'Ann', playerWhite: 'Ben', result: 'B+3' });
+    expect(describeTree(second.tree)).toEqual(describeTree(first.tree));
+  });
+});
@@ -0,0 +1,338 @@
+import { StoneColor, Coordinates, Move, GameTree, GameNode } from '../types';
+import { createEmptyBoard, placeStone, ILLEGAL_MOVE_MESSAGES, toGoCoordinate, COLUMN_LETTERS } from './gameLogic';
+import { createGameTree, addMoveNode, appendComment } from './gameTree';
+
+// Raw SGF game tree: each node keeps its properties as written, e.g. { B: ["dd"], C: ["..."] }
+export interface SgfNode {
+  props: Record<string, string[]>;
+  children: SgfNode[];
+}
+
+export interface SgfMove {
+  color: StoneColor;
+  move: Move;
+  comment?: string;
+}
+
+// Game information from the root node
+export interface SgfGameInfo {
+  boardSize: number;
+  komi: number;
+  handicap: number;
+  playerBlack?: string;
+  playerWhite?: string;
+  result?: string;
+  // Stones on the board before the first move (AB/AW), e.g. handicap stones
+  setup: { black: Coordinates[]; white: Coordinates[] };
+  // Player to move first when no moves follow the setup (PL)
+  firstPlayer?: StoneColor;
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+// Parse SGF text into its collection of game trees. Throws on malformed input.
+export const parseSgfCollection = (text: string): SgfNode[] => {
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos])) pos++;
+  };
+
+  const parseValue = (): string => {
+    // Called with text[pos] === '['
+    pos++;
+    let value = '';
+    while (pos < text.length && text[pos] !== ']') {
+      if (text[pos] === '\\') {
+        pos++;
+        // An escaped line break is a soft break and is removed
+        if (text[pos] === '\r' && text[pos + 1] === '\n') {
+          pos += 2;
+          continue;
+        }
+        if (text[pos] === '\n' || text[pos] === '\r') {
+          pos++;
+          continue;
+        }
+      }
+      value += text[pos];
+      pos++;
+    }
+    if (pos >= text.length) throw new Error('SGF: unterminated property value');
+    pos++; // Skip ']'
+    return value;
+  };
+
+  const parseNode = (): SgfNode => {
+    // Called with text[pos] === ';'
+    pos++;
+    const node: SgfNode = { props: {}, children: [] };
+    skipWhitespace();
+    while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+      let ident = '';
+      while (pos < text.length && /[A-Za-z]/.test(text[pos])) {
+        // FF[1-3] allowed lower-case letters in identifiers; only the capitals count
+        if (text[pos] >= 'A' && text[pos] <= 'Z') ident += text[pos];
+        pos++;
+      }
+      skipWhitespace();
+      const values: string[] = [];
+      while (text[pos] === '[') {
+        values.push(parseValue());
+        skipWhitespace();
+      }
+      if (values.length === 0) throw new Error(`SGF: property ${ident} has no value`);
+      node.props[ident] = [...(node.props[ident] || []), ...values];
+    }
+    return node;
+  };
+
+  // A game tree is a sequence of nodes followed by variations; the sequence is stored as a
+  // chain where each node's only child is the next one.
+  const parseGameTree = (): SgfNode => {
+    // Called with text[pos] === '('
+    pos++;
+    skipWhitespace();
+    if (text[pos] !== ';') throw new Error('SGF: game tree must start with a node');
+
+    const first = parseNode();
+    let last = first;
+    skipWhitespace();
+    while (text[pos] === ';') {
+      const next = parseNode();
+      last.children.push(next);
+      last = next;
+      skipWhitespace();
+    }
+    while (text[pos] === '(') {
+      last.children.push(parseGameTree());
+      skipWhitespace();
+    }
+    if (text[pos] !== ')') throw new Error('SGF: missing closing parenthesis');
+    pos++;
+    return first;
+  };
+
+  const trees: SgfNode[] = [];
+  skipWhitespace();
+  while (pos < text.length) {
+    if (text[pos] !== '(') throw new Error('SGF: expected "(" at start of game');
+    trees.push(parseGameTree());
+    skipWhitespace();
+  }
+  if (trees.length === 0) throw new Error('SGF: no game found');
+  return trees;
+};
+
+// Decode an SGF point such as "dd". Returns 'pass' for an empty value or "tt" on small boards.
+export const sgfToMove = (value: string, size: number): Move => {
+  if (value === '' || (value === 'tt' && size <= 19)) return 'pass';
+  const x = value.charCodeAt(0) - 97;
+  const y = value.charCodeAt(1) - 97;
+  if (!(x >= 0 && x < size && y >= 0 && y < size)) {
+    throw new Error(`SGF: point "${value}" is outside the ${size}x${size} board`);
+  }
+  return { x, y };
+};
+
+// Expand a list of points, including compressed rectangles like "aa:cc"
+const sgfToPoints = (values: string[], size: number): Coordinates[] => {
+  const points: Coordinates[] = [];
+  for (const value of values) {
+    const [from, to] = value.split(':');
+    const start = sgfToMove(from, size);
+    if (start === 'pass') continue;
+    const end = to ? sgfToMove(to, size) : start;
+    if (end === 'pass') continue;
+    for (let y = Math.min(start.y, end.y); y <= Math.max(start.y, end.y); y++) {
+      for (let x = Math.min(start.x, end.x); x <= Math.max(start.x, end.x); x++) {
+        points.push({ x, y });
+      }
+    }
+  }
+  return points;
+};
+
+// Read the game information and setup from a root node
+export const sgfRootToGameInfo = (root: SgfNode): SgfGameInfo => {
+  const prop = (id: string): string | undefined => root.props[id]?.[0];
+
+  const sizeValue = prop('SZ');
+  const boardSize = sizeValue ? parseInt(sizeValue, 10) : 19;
+  // Coordinates are written with the column letters A-T (no I), which cover up to 19x19
+  if (!(boardSize >= 2 && boardSize <= COLUMN_LETTERS.length)) {
+    throw new Error(`SGF: unsupported board size "${sizeValue}" (2 to ${COLUMN_LETTERS.length} supported)`);
+  }
+  const gameType = prop('GM');
+  if (gameType && gameType !== '1') throw new Error('SGF: not a Go game');
+
+  const komi = parseFloat(prop('KM') || '0');
+  const handicap = parseInt(prop('HA') || '0', 10);
+  const player = prop('PL');
+
+  return {
+    boardSize,
+    komi: isNaN(komi) ? 0 : komi,
+    handicap: isNaN(handicap) ? 0 : handicap,
+    playerBlack: prop('PB'),
+    playerWhite: prop('PW'),
+    result: prop('RE'),
+    setup: {
+      black: sgfToPoints(root.props.AB || [], boardSize),
+      white: sgfToPoints(root.props.AW || [], boardSize),
+    },
+    firstPlayer: player === 'W' ? StoneColor.WHITE : player === 'B' ? StoneColor.BLACK : undefined,
+  };
+};
+
+// Read the move in a node, if it has one
+export const sgfNodeToMove = (node: SgfNode, size: number): SgfMove | null => {
+  const color = node.props.B ? StoneColor.BLACK : node.props.W ? StoneColor.WHITE : null;
+  if (color === null) return null;
+  const value = (color === StoneColor.BLACK ? node.props.B : node.props.W)[0];
+  return { color, move: sgfToMove(value, size), comment: node.props.C?.[0] };
+};
+
+// ---------------------------------------------------------------------------
+// Writing
+// ---------------------------------------------------------------------------
+
+const escapeSgfText = (text: string): string => text.replace(/\\/g, '\\\\').replace(/]/g, '\\]');
+
+export const moveToSgf = (move: Move): string => {
+  if (move === 'pass') return '';
+  return String.fromCharCode(97 + move.x) + String.fromCharCode(97 + move.y);
+};
+
+// Game information written to the root node; the setup stones and first player come from
+// the tree's root position
+export type SgfWriteInfo = Omit<SgfGameInfo, 'setup' | 'firstPlayer'>;
+
+// Serialize the root properties shared by every game record
+const sgfRootProperties = (info: SgfWriteInfo, root: GameNode): string => {
+  const setup = gridToSetup(root.grid);
+  let sgf = `;GM[1]FF[4]CA[UTF-8]AP[ZenGo:1.0]SZ[${info.boardSize}]KM[${info.komi}]`;
+  if (info.handicap >= 2) sgf += `HA[${info.handicap}]`;
+  if (info.playerBlack) sgf += `PB[${escapeSgfText(info.playerBlack)}]`;
+  if (info.playerWhite) sgf += `PW[${escapeSgfText(info.playerWhite)}]`;
+  if (info.result) sgf += `RE[${escapeSgfText(info.result)}]`;
+  if (setup.black.length > 0) sgf += 'AB' + setup.black.map(p => `[${moveToSgf(p)}]`).join('');
+  if (setup.white.length > 0) sgf += 'AW' + setup.white.map(p => `[${moveToSgf(p)}]`).join('');
+  if (root.children.length === 0) sgf += `PL[${root.turn === StoneColor.BLACK ? 'B' : 'W'}]`;
+  if (root.comment) sgf += `C[${escapeSgfText(root.comment)}]`;
+  return sgf;
+};
+
+const sgfMoveNode = (node: GameNode): string => {
+  let sgf = `;${node.color === StoneColor.BLACK ? 'B' : 'W'}[${moveToSgf(node.move!)}]`;
+  if (node.comment) sgf += `C[${escapeSgfText(node.comment)}]`;
+  return sgf;
+};
+
+// Serialize a game tree as an FF[4] SGF record. Forks are written as parenthesised
+// variations with the main line first.
+export const serializeSgf = (info: SgfWriteInfo, tree: GameTree): string => {
+  const writeSequence = (nodeId: number): string => {
+    const lines: string[] = [];
+    let node = tree.nodes[nodeId];
+    lines.push(sgfMoveNode(node));
+    while (node.children.length === 1) {
+      node = tree.nodes[node.children[0]];
+      lines.push(sgfMoveNode(node));
+    }
+    let sgf = lines.join('\n');
+    if (node.children.length > 1) {
+      sgf += '\n' + node.children.map(id => `(${writeSequence(id)})`).join('\n');
+    }
+    return sgf;
+  };
+
+  const root = tree.nodes[tree.rootId];
+  let sgf = sgfRootProperties(info, root);
+  if (root.children.length === 1) {
+    sgf += '\n' + writeSequence(root.children[0]);
+  } else if (root.children.length > 1) {
+    sgf += '\n' + root.children.map(id => `(${writeSequence(id)})`).join('\n');
+  }
+  return `(${sgf})\n`;
+};
+
+// ---------------------------------------------------------------------------
+// Mapping to and from the game tree
+// ---------------------------------------------------------------------------
+
+// Place the setup stones and work out who moves first
+const sgfInitialPosition = (info: SgfGameInfo, root: SgfNode): { grid: StoneColor[][]; turn: StoneColor } => {
+  const grid = createEmptyBoard(info.boardSize);
+  info.setup.black.forEach(p => { grid[p.y][p.x] = StoneColor.BLACK; });
+  info.setup.white.forEach(p => { grid[p.y][p.x] = StoneColor.WHITE; });
+
+  const firstMove = root.children.length > 0 ? sgfNodeToMove(root.children[0], info.boardSize) : null;
+  let turn = StoneColor.BLACK;
+  if (info.firstPlayer !== undefined) turn = info.firstPlayer;
+  else if (firstMove) turn = firstMove.color;
+  else if (info.setup.black.length > 0 && info.setup.white.length === 0) turn = StoneColor.WHITE;
+  return { grid, turn };
+};
+
+// Load the first game of an SGF file, replaying every variation into a game tree
+export const loadSgf = (text: string): { info: SgfGameInfo; tree: GameTree } =>
+  sgfGameToTree(parseSgfCollection(text)[0]);
+
+// Replay one parsed game, with every variation, into a game tree. Ko is not enforced here
+// because the record may come from a tool using different rules.
+export const sgfGameToTree = (root: SgfNode): { info: SgfGameInfo; tree: GameTree } => {
+  const info = sgfRootToGameInfo(root);
+  const initial = sgfInitialPosition(info, root);
+  let tree = createGameTree(initial.grid, initial.turn, root.props.C?.[0]);
+
+  // Walk the SGF tree depth first, pairing each SGF node with the game node it leads from.
+  // Nodes without a move (comments, markup) fold into the game node above them.
+  const stack: { sgfNode: SgfNode; parentId: number; depth: number }[] =
+    [...root.children].reverse().map(sgfNode => ({ sgfNode, parentId: tree.rootId, depth: 1 }));
+
+  while (stack.length > 0) {
+    const { sgfNode, parentId, depth } = stack.pop()!;
+    const entry = sgfNodeToMove(sgfNode, info.boardSize);
+    let nodeId = parentId;
+
+    if (entry) {
+      const parent = tree.nodes[parentId];
+      let grid = parent.grid;
+      let captures = parent.captures;
+      if (entry.move !== 'pass') {
+        const { x, y } = entry.move;
+        const outcome = placeStone(grid, x, y, entry.color);
+        if (outcome.legal === false) {
+          throw new Error(`SGF: move ${depth} at ${toGoCoordinate(x, y, info.boardSize)} is illegal (${ILLEGAL_MOVE_MESSAGES[outcome.reason]})`);
+        }
+        grid = outcome.newGrid;
+        captures = entry.color === StoneColor.BLACK
+          ? { ...captures, white: captures.white + outcome.capturedCount }
+          : { ...captures, black: captures.black + outcome.capturedCount };
+      }
+      const added = addMoveNode(tree, parentId, entry.move, entry.color, grid, captures, entry.comment);
+      tree = added.tree;
+      nodeId = added.nodeId;
+    } else if (sgfNode.props.C) {
+      tree = appendComment(tree, parentId, sgfNode.props.C[0]);
+    }
+
+    const nextDepth = entry ? depth + 1 : depth;
+    [...sgfNode.children].reverse().forEach(child => stack.push({ sgfNode: child, parentId: nodeId, depth: nextDepth }));
+  }
+
+  return { info, tree };
+};
+
+// Stones present before the first move, used for AB/AW
+export const gridToSetup = (grid: StoneColor[][]): SgfGameInfo['setup'] => {
+  const setup: SgfGameInfo['setup'] = { black: [], white: [] };
+  grid.forEach((row, y) => row.forEach((stone, x) => {
+    if (stone === StoneColor.BLACK) setup.black.push({ x, y });
+    else if (stone === StoneColor.WHITE) setup.white.push({ x, y });
+  }));
+  return setup;
+};
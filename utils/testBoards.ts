@@ -0,0 +1,7 @@
+import { StoneColor } from '../types';
+
+// Test helper: build a grid from rows such as ".XO..", where X is Black and O is White
+export const boardFromRows = (rows: string[]): StoneColor[][] =>
+  rows.map(row => [...row].map(point =>
+    point === 'X' ? StoneColor.BLACK : point === 'O' ? StoneColor.WHITE : StoneColor.EMPTY
+  ));
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { KoRule, TsumegoProblem } from '../types';
+import { findCorrectNodes, loadTsumegoCollection, playTsumegoMove } from './tsumego';
+import { findChild } from './gameTree';
+
+const PROBLEM = `(;SZ[5]AB[aa]AW[ee]
+(;B[cc];W[cd];B[dc]C[RIGHT])
+(;B[bb];W[cc]C[Wrong]))`;
+
+// Black takes the ko at c2 and White takes it back, so Black may not retake at once
+const KO_PROBLEM = `(;SZ[5]AB[ba][ab][bc]AW[ca][bb][db][cc]
+;B[cb];W[bb];B[cb]C[RIGHT])`;
+
+const load = (text: string): TsumegoProblem => loadTsumegoCollection(text, 'Test')[0];
+
+describe('findCorrectNodes', () => {
+  it('keeps the lines that end in a correct comment', () => {
+    const { tree, correctNodes } = load(PROBLEM);
+    const right = findChild(tree, tree.rootId, { x: 2, y: 2 })!;
+    const wrong = findChild(tree, tree.rootId, { x: 1, y: 1 })!;
+    expect(correctNodes.has(tree.rootId)).toBe(true);
+    expect(correctNodes.has(right)).toBe(true);
+    expect(correctNodes.has(wrong)).toBe(false);
+  });
+
+  it('takes the main line when nothing is marked', () => {
+    const { tree } = load('(;SZ[5];B[cc];W[cd](;B[dc])(;B[dd]))');
+    const correct = findCorrectNodes(tree);
+    expect(correct.size).toBe(4);
+    const first = tree.nodes[tree.rootId].children[0];
+    const reply = tree.nodes[first].children[0];
+    expect([...correct]).toEqual([tree.rootId, first, reply, tree.nodes[reply].children[0]]);
+  });
+});
+
+describe('playTsumegoMove', () => {
+  it('answers a correct move and solves the problem at the end of the line', () => {
+    const problem = load(PROBLEM);
+    const first = playTsumegoMove(problem, problem.tree, problem.tree.rootId, { x: 2, y: 2 });
+    if ('illegal' in first) throw new Error(first.illegal);
+    expect(first.outcome).toBe('continue');
+    expect(first.tree.nodes[first.nodeId].move).toEqual({ x: 2, y: 3 });
+
+    const second = playTsumegoMove(problem, first.tree, first.nodeId, { x: 3, y: 2 });
+    if ('illegal' in second) throw new Error(second.illegal);
+    expect(second.outcome).toBe('solved');
+    expect(second.comment).toBe('RIGHT');
+  });
+
+  it('plays the refutation after a listed wrong move', () => {
+    const problem = load(PROBLEM);
+    const step = playTsumegoMove(problem, problem.tree, problem.tree.rootId, { x: 1, y: 1 });
+    if ('illegal' in step) throw new Error(step.illegal);
+    expect(step.outcome).toBe('wrong');
+    expect(step.tree.nodes[step.nodeId].move).toEqual({ x: 2, y: 2 });
+    expect(step.comment).toBe('Wrong');
+  });
+
+  it('adds a move the problem does not list and counts it as wrong', () => {
+    const problem = load(PROBLEM);
+    const step = playTsumegoMove(problem, problem.tree, problem.tree.rootId, { x: 3, y: 3 });
+    if ('illegal' in step) throw new Error(step.illegal);
+    expect(step.outcome).toBe('wrong');
+    expect(step.tree.nodes[step.nodeId].move).toEqual({ x: 3, y: 3 });
+    expect(problem.tree.nodes[problem.tree.rootId].children).toHaveLength(2);
+  });
+
+  it('refuses illegal moves', () => {
+    const problem = load(PROBLEM);
+    expect(playTsumegoMove(problem, problem.tree, problem.tree.rootId, { x: 0, y: 0 })).toEqual({ illegal: 'occupied' });
+  });
+
+  it('refuses a listed move that retakes a ko at once', () => {
+    const problem = load(KO_PROBLEM);
+    const step = playTsumegoMove(problem, problem.tree, problem.tree.rootId, { x: 2, y: 1 }, KoRule.SIMPLE);
+    if ('illegal' in step) throw new Error(step.illegal);
+    expect(step.tree.nodes[step.nodeId].move).toEqual({ x: 1, y: 1 });
+    expect(playTsumegoMove(problem, step.tree, step.nodeId, { x: 2, y: 1 }, KoRule.SIMPLE)).toEqual({ illegal: 'ko' });
+  });
+});
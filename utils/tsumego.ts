@@ -0,0 +1,96 @@
+import { StoneColor, Coordinates, GameTree, IllegalMoveReason, KoRule, TsumegoProblem, TsumegoStep } from '../types';
+import { placeStone } from './gameLogic';
+import { addMoveNode, findChild, getNodePath, pathToHistory } from './gameTree';
+import { parseSgfCollection, sgfGameToTree } from './sgf';
+
+// Problem collections mark the end of a correct line with a comment such as "RIGHT" or
+// "Correct"; wrong endings often say so too
+const CORRECT_COMMENT = /\b(right|correct)\b/i;
+const WRONG_COMMENT = /\b(wrong|incorrect|fail(ed|s)?)\b/i;
+
+const isMarkedCorrect = (comment?: string): boolean =>
+  !!comment && CORRECT_COMMENT.test(comment) && !WRONG_COMMENT.test(comment);
+
+// Every node on a line that ends in a correct leaf. Collections without any marks are taken
+// to give the solution as the main line.
+export const findCorrectNodes = (tree: GameTree): Set<number> => {
+  const correct = new Set<number>();
+  const visit = (nodeId: number): boolean => {
+    const node = tree.nodes[nodeId];
+    let leadsToCorrect = node.children.length === 0 && isMarkedCorrect(node.comment);
+    node.children.forEach(childId => {
+      if (visit(childId)) leadsToCorrect = true;
+    });
+    if (leadsToCorrect) correct.add(nodeId);
+    return leadsToCorrect;
+  };
+  visit(tree.rootId);
+  if (correct.size > 0) return correct;
+
+  let nodeId: number | undefined = tree.rootId;
+  while (nodeId !== undefined) {
+    correct.add(nodeId);
+    nodeId = tree.nodes[nodeId].children[0];
+  }
+  return correct;
+};
+
+// Read every problem in an SGF collection. Games without any moves to find are skipped.
+export const loadTsumegoCollection = (text: string, name: string): TsumegoProblem[] => {
+  const games = parseSgfCollection(text);
+  const problems: TsumegoProblem[] = [];
+  games.forEach((game, index) => {
+    const { tree } = sgfGameToTree(game);
+    const root = tree.nodes[tree.rootId];
+    if (root.children.length === 0) return;
+    problems.push({
+      title: game.props.GN?.[0] || `${name} #${index + 1}`,
+      tree,
+      toPlay: root.turn,
+      correctNodes: findCorrectNodes(tree),
+    });
+  });
+  if (problems.length === 0) throw new Error('No problems with solution moves found in this file');
+  return problems;
+};
+
+// Play the solver's move from `nodeId` and let the opponent answer. A move the problem does
+// not list is added to the tree and counts as wrong. After a wrong move the opponent plays
+// the refutation when the problem gives one. Ko is checked against the line played so far
+// under `koRule`, so a listed move that retakes a ko too early is refused as well.
+export const playTsumegoMove = (
+  problem: TsumegoProblem,
+  tree: GameTree,
+  nodeId: number,
+  point: Coordinates,
+  koRule: KoRule = KoRule.SIMPLE
+): TsumegoStep | { illegal: IllegalMoveReason } => {
+  const node = tree.nodes[nodeId];
+  const history = pathToHistory(getNodePath(tree, nodeId));
+  const placed = placeStone(node.grid, point.x, point.y, node.turn, { history, koRule });
+  if (placed.legal === false) return { illegal: placed.reason };
+  let childId = findChild(tree, nodeId, point);
+  if (childId === undefined) {
+    const captures = node.turn === StoneColor.BLACK
+      ? { ...node.captures, white: node.captures.white + placed.capturedCount }
+      : { ...node.captures, black: node.captures.black + placed.capturedCount };
+    const added = addMoveNode(tree, nodeId, point, node.turn, placed.newGrid, captures);
+    tree = added.tree;
+    childId = added.nodeId;
+  }
+
+  const child = tree.nodes[childId];
+  const correct = problem.correctNodes.has(childId);
+  const replies = child.children;
+  // Prefer an answer that keeps the line correct, so the solver is not led into a dead end
+  const replyId = correct ? replies.find(id => problem.correctNodes.has(id)) ?? replies[0] : replies[0];
+  const comments = [child.comment, replyId !== undefined ? tree.nodes[replyId].comment : undefined]
+    .filter(Boolean)
+    .join('\n');
+  const endId = replyId ?? childId;
+
+  let outcome: TsumegoStep['outcome'] = 'continue';
+  if (!correct) outcome = 'wrong';
+  else if (tree.nodes[endId].children.length === 0) outcome = 'solved';
+  return { tree, nodeId: endId, outcome, comment: comments || undefined };
+};